@@ -7,11 +7,21 @@
  * 3. If LLM returns tool_calls → execute tools → append results → loop
  * 4. If LLM returns text → done, return to user
  * 5. Limit max iterations to prevent infinite loops
+ *
+ * Independent tool calls from one response run concurrently (up to
+ * maxParallelTools); tools marked `parallel: false` run alone, in order.
+ *
+ * With a context budget, tool results are truncated and older ones elided
+ * so long tool chains stay within the model's context window.
  */
 
 import { LLMClient } from '../shared/llmClient';
 import { ToolRegistry } from './toolRegistry';
-import type { LLMMessage, LLMStreamDelta } from '../shared/types';
+import { fitToBudget, truncateToolResult } from './contextCompactor';
+import type { ContextBudget } from './contextCompactor';
+import type { TraceRecorder } from './traceRecorder';
+import { contentToText } from '../shared/messageContent';
+import type { LLMMessage, LLMStreamDelta, MessageContent, ToolCall } from '../shared/types';
 
 export interface AgentRunnerConfig {
   llmClient: LLMClient;
@@ -19,6 +29,12 @@ export interface AgentRunnerConfig {
   maxIterations: number;
   systemPrompt: string;
   temperature?: number;
+  /** Optional context window budget; without it messages are sent as-is */
+  contextBudget?: ContextBudget;
+  /** Max tool calls executed at once (default: 4, 1 = sequential) */
+  maxParallelTools?: number;
+  /** Optional recorder for LLM round-trips and tool executions */
+  trace?: TraceRecorder;
 }
 
 export interface AgentStreamCallbacks {
@@ -26,14 +42,63 @@ export interface AgentStreamCallbacks {
   onThinking?: (toolName: string) => void;
   /** Called for each text token from the LLM */
   onToken?: (token: string) => void;
-  /** Called when a tool is executed, with name and result */
-  onToolResult?: (toolName: string, result: string) => void;
+  /** Called for each reasoning token; reasoning is not kept in the history */
+  onReasoning?: (token: string) => void;
+  /** Called when a tool is executed, with name, result, the call it answers and whether it failed */
+  onToolResult?: (toolName: string, result: string, details: { toolCallId: string; isError: boolean }) => void;
+  /** Called for each tool-call step and tool result added to the history */
+  onMessage?: (message: LLMMessage) => void;
   /** Called when the agent finishes */
   onDone?: (fullResponse: string) => void;
   /** Called on error */
   onError?: (error: Error) => void;
 }
 
+/**
+ * Split tool calls into ordered batches: runs of parallel-safe calls share a
+ * batch, while each non-parallel call forms a batch of its own.
+ */
+function planToolBatches(toolCalls: ToolCall[], toolRegistry: ToolRegistry): ToolCall[][] {
+  const batches: ToolCall[][] = [];
+  let current: ToolCall[] = [];
+
+  for (const toolCall of toolCalls) {
+    const tool = toolRegistry.get(toolCall.function.name);
+    if (tool?.parallel === false) {
+      if (current.length > 0) batches.push(current);
+      batches.push([toolCall]);
+      current = [];
+    } else {
+      current.push(toolCall);
+    }
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+/**
+ * Map over items with at most `limit` promises in flight, preserving order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const idx = next++;
+      results[idx] = await fn(items[idx]);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
+
 export class AgentRunner {
   private config: AgentRunnerConfig;
 
@@ -53,8 +118,11 @@ export class AgentRunner {
     callbacks: AgentStreamCallbacks,
     signal?: AbortSignal
   ): Promise<string> {
-    const { llmClient, toolRegistry, maxIterations, systemPrompt, temperature } = this.config;
+    const {
+      llmClient, toolRegistry, maxIterations, systemPrompt, temperature, contextBudget, maxParallelTools, trace,
+    } = this.config;
     const toolDefs = toolRegistry.toDefinitions();
+    trace?.setRequestContext(systemPrompt, toolDefs);
 
     // Build full message list
     const fullMessages: LLMMessage[] = [
@@ -69,11 +137,19 @@ export class AgentRunner {
 
       if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
 
+      const requestMessages = contextBudget
+        ? fitToBudget(fullMessages, contextBudget, toolDefs)
+        : fullMessages;
+
       // Call LLM with streaming
       let fullText = '';
+      const startedAt = Date.now();
       const response = await llmClient.stream(
-        fullMessages,
+        requestMessages,
         (delta: LLMStreamDelta) => {
+          if (delta.reasoning) {
+            callbacks.onReasoning?.(delta.reasoning);
+          }
           if (delta.content) {
             fullText += delta.content;
             callbacks.onToken?.(delta.content);
@@ -88,19 +164,31 @@ export class AgentRunner {
           }
         },
         { temperature, tools: toolDefs.length > 0 ? toolDefs : undefined, signal }
-      );
+      ).catch((err) => {
+        trace?.add({
+          type: 'llm', iteration, startedAt, durationMs: Date.now() - startedAt,
+          messages: [...requestMessages], error: err instanceof Error ? err.message : String(err),
+        });
+        throw err;
+      });
+      trace?.add({
+        type: 'llm', iteration, startedAt, durationMs: Date.now() - startedAt,
+        messages: [...requestMessages], response,
+      });
 
       // If the LLM returned tool calls, execute them
       if (response.tool_calls && response.tool_calls.length > 0) {
         // Add assistant message with tool calls to history
-        fullMessages.push({
+        const toolCallMessage: LLMMessage = {
           role: 'assistant',
           content: response.content || '',
           tool_calls: response.tool_calls,
-        });
+        };
+        fullMessages.push(toolCallMessage);
+        callbacks.onMessage?.(toolCallMessage);
 
-        // Execute each tool call
-        for (const toolCall of response.tool_calls) {
+        // Execute tool calls, batching the parallel-safe ones
+        const executeToolCall = async (toolCall: ToolCall): Promise<MessageContent> => {
           if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
 
           const toolName = toolCall.function.name;
@@ -112,14 +200,28 @@ export class AgentRunner {
           }
 
           callbacks.onThinking?.(toolName);
-          const result = await toolRegistry.execute(toolName, toolArgs);
-          callbacks.onToolResult?.(toolName, result);
-
-          // Add tool result to messages
-          fullMessages.push({
-            role: 'tool',
-            content: result,
-            tool_call_id: toolCall.id,
+          const startedAt = Date.now();
+          const { content, isError } = await toolRegistry.execute(toolName, toolArgs);
+          trace?.add({
+            type: 'tool', iteration, startedAt, durationMs: Date.now() - startedAt,
+            name: toolName, args: toolArgs, result: contentToText(content),
+          });
+          callbacks.onToolResult?.(toolName, contentToText(content), { toolCallId: toolCall.id, isError });
+          return content;
+        };
+
+        for (const batch of planToolBatches(response.tool_calls, toolRegistry)) {
+          const results = await mapWithConcurrency(batch, maxParallelTools ?? 4, executeToolCall);
+
+          // Add tool results to messages in the order the LLM requested them
+          batch.forEach((toolCall, i) => {
+            const toolMessage: LLMMessage = {
+              role: 'tool',
+              content: contextBudget ? truncateToolResult(results[i], contextBudget) : results[i],
+              tool_call_id: toolCall.id,
+            };
+            fullMessages.push(toolMessage);
+            callbacks.onMessage?.(toolMessage);
           });
         }
 
@@ -139,7 +241,7 @@ export class AgentRunner {
     callbacks.onError?.(new Error(msg));
     return fullMessages
       .filter(m => m.role === 'assistant')
-      .map(m => m.content)
+      .map(m => contentToText(m.content))
       .join('\n') || msg;
   }
 }
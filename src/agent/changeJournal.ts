@@ -0,0 +1,189 @@
+/**
+ * Change Journal - records vault modifications made by the agent so a single
+ * change, or everything one agent turn did, can be reverted.
+ */
+
+import { TFile, TFolder } from 'obsidian';
+import type { App } from 'obsidian';
+import type { ChangeJournalData, JournalEntry, VaultChange, VaultChangeAction } from '../shared/types';
+
+/** Oldest entries are dropped beyond this (each holds full note contents) */
+const MAX_ENTRIES = 200;
+
+/** Budget for the note contents kept in plugin data, in characters; oldest entries go first */
+const MAX_CONTENT_CHARS = 2 * 1024 * 1024;
+
+function contentSize(entry: JournalEntry): number {
+  return (entry.before?.length ?? 0) + (entry.after?.length ?? 0);
+}
+
+export const CHANGE_ACTION_LABELS: Record<VaultChangeAction, string> = {
+  create: 'created',
+  modify: 'modified',
+  move: 'moved',
+  trash: 'trashed',
+  create_folder: 'created folder',
+};
+
+/** One-line description, e.g. "moved Inbox/a.md → Notes/a.md" */
+export function describeChange(entry: VaultChange): string {
+  const target = entry.action === 'move' ? `${entry.from} → ${entry.path}` : entry.path;
+  return `${CHANGE_ACTION_LABELS[entry.action]} ${target}`;
+}
+
+export class ChangeJournal {
+  private data: ChangeJournalData;
+  private onChange?: () => void;
+
+  /**
+   * @param data - persisted journal (from plugin data)
+   * @param onChange - called after every record/update, e.g. a debounced save
+   */
+  constructor(data?: ChangeJournalData, onChange?: () => void) {
+    this.data = data || { entries: [] };
+    this.onChange = onChange;
+    this.trim();
+  }
+
+  record(change: VaultChange, sessionId: string, turnId: string): JournalEntry {
+    const entry: JournalEntry = {
+      ...change,
+      id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+      sessionId,
+      turnId,
+      timestamp: Date.now(),
+    };
+    this.data.entries.push(entry);
+    this.trim();
+    this.onChange?.();
+    return entry;
+  }
+
+  /** Drop the oldest entries beyond the entry and content limits; the newest entry is always kept */
+  private trim(): void {
+    const entries = this.data.entries;
+    if (entries.length > MAX_ENTRIES) {
+      entries.splice(0, entries.length - MAX_ENTRIES);
+    }
+    let total = entries.reduce((sum, e) => sum + contentSize(e), 0);
+    let drop = 0;
+    while (drop < entries.length - 1 && total > MAX_CONTENT_CHARS) {
+      total -= contentSize(entries[drop]);
+      drop++;
+    }
+    if (drop > 0) entries.splice(0, drop);
+  }
+
+  /** All entries, newest first */
+  getEntries(): JournalEntry[] {
+    return [...this.data.entries].reverse();
+  }
+
+  /** Entries of one agent turn, newest first */
+  getTurn(turnId: string): JournalEntry[] {
+    return this.getEntries().filter(e => e.turnId === turnId);
+  }
+
+  /** The most recent turn that still has unreverted changes */
+  getLastTurnId(): string | null {
+    return this.getEntries().find(e => !e.reverted)?.turnId ?? null;
+  }
+
+  markReverted(ids: string[]): void {
+    for (const entry of this.data.entries) {
+      if (ids.includes(entry.id)) entry.reverted = true;
+    }
+    this.onChange?.();
+  }
+
+  clear(): void {
+    this.data = { entries: [] };
+    this.onChange?.();
+  }
+
+  getData(): ChangeJournalData {
+    return this.data;
+  }
+}
+
+/**
+ * Paths whose current content no longer matches what the agent left there,
+ * i.e. reverting them would discard later edits.
+ * Only the newest entry per path is compared; moves and folders never conflict.
+ */
+export async function findConflicts(app: App, entries: JournalEntry[]): Promise<string[]> {
+  const seen = new Set<string>();
+  const conflicts: string[] = [];
+
+  for (const entry of sortNewestFirst(entries)) {
+    if (seen.has(entry.path)) continue;
+    seen.add(entry.path);
+    if (entry.action === 'move' || entry.action === 'create_folder') continue;
+
+    const file = app.vault.getAbstractFileByPath(entry.path);
+    const current = file instanceof TFile ? await app.vault.read(file) : null;
+    if (current !== entry.after) conflicts.push(entry.path);
+  }
+  return conflicts;
+}
+
+/**
+ * Undo each change, newest first: restore previous content, move files back
+ * (renameFile updates links again), recreate trashed notes, and trash created
+ * files. Created folders are removed only if they are empty.
+ */
+export async function revertChanges(app: App, entries: JournalEntry[]): Promise<void> {
+  for (const entry of sortNewestFirst(entries)) {
+    const file = app.vault.getAbstractFileByPath(entry.path);
+
+    switch (entry.action) {
+      case 'create':
+        if (file) await app.fileManager.trashFile(file);
+        break;
+
+      case 'create_folder':
+        if (file instanceof TFolder && file.children.length === 0) {
+          await app.fileManager.trashFile(file);
+        }
+        break;
+
+      case 'move': {
+        if (!file) throw new Error(`Cannot move back: ${entry.path} no longer exists`);
+        if (!entry.from) break;
+        if (app.vault.getAbstractFileByPath(entry.from)) {
+          throw new Error(`Cannot move back: ${entry.from} is taken`);
+        }
+        await ensureFolder(app, parentPath(entry.from));
+        await app.fileManager.renameFile(file, entry.from);
+        break;
+      }
+
+      case 'modify':
+      case 'trash':
+        if (entry.before === null) {
+          // A trashed folder
+          await ensureFolder(app, entry.path);
+        } else if (file instanceof TFile) {
+          await app.vault.modify(file, entry.before);
+        } else {
+          await ensureFolder(app, parentPath(entry.path));
+          await app.vault.create(entry.path, entry.before);
+        }
+        break;
+    }
+  }
+}
+
+function parentPath(path: string): string {
+  return path.substring(0, path.lastIndexOf('/'));
+}
+
+async function ensureFolder(app: App, path: string): Promise<void> {
+  if (path && !app.vault.getAbstractFileByPath(path)) {
+    await app.vault.createFolder(path);
+  }
+}
+
+function sortNewestFirst(entries: JournalEntry[]): JournalEntry[] {
+  return [...entries].sort((a, b) => b.timestamp - a.timestamp);
+}
@@ -0,0 +1,162 @@
+/**
+ * Context Compactor - keeps agent and chat requests inside the model's context window.
+ *
+ * Three tools, cheapest first:
+ * 1. Truncate oversized tool results as they are produced
+ * 2. Elide old tool results from the running agent loop
+ * 3. Summarise older chat turns with the LLM (see ChatView)
+ */
+
+import { LLMClient } from '../shared/llmClient';
+import {
+  estimateMessagesTokens,
+  estimateToolsTokens,
+  getContextWindow,
+  truncateToTokens,
+} from '../shared/tokenEstimator';
+import { contentToText } from '../shared/messageContent';
+import type { LLMMessage, MessageContent, ToolDefinition } from '../shared/types';
+
+export interface ContextBudget {
+  model: string;
+  contextWindow: number;
+  /** Headroom kept free for the model's reply */
+  reserveOutputTokens: number;
+  /** Cap for a single tool result */
+  maxToolResultTokens: number;
+}
+
+/** Tool results are clipped to this when building a summary transcript */
+const SUMMARY_TOOL_RESULT_TOKENS = 300;
+
+const ELIDED_TOOL_RESULT = '[Earlier tool result omitted to fit the context window. Call the tool again if needed.]';
+
+const SUMMARY_PROMPT = `You compress chat history for an AI assistant embedded in Obsidian.
+Write a concise summary of the conversation below so the assistant can continue it without the original messages.
+
+Keep:
+- The user's goals, questions and stated preferences
+- Facts, decisions and conclusions reached
+- Note paths, names and other identifiers that were mentioned or used
+- Open questions and pending tasks
+
+Write in the conversation's language. Output only the summary, as short Markdown bullet points.`;
+
+export function createContextBudget(
+  model: string,
+  options?: { contextWindow?: number; maxToolResultTokens?: number }
+): ContextBudget {
+  const contextWindow = getContextWindow(model, options?.contextWindow);
+  return {
+    model,
+    contextWindow,
+    reserveOutputTokens: Math.min(4096, Math.floor(contextWindow / 4)),
+    maxToolResultTokens: options?.maxToolResultTokens || 8000,
+  };
+}
+
+/**
+ * Tokens available for messages once output headroom and tool definitions are paid for
+ */
+export function availableTokens(budget: ContextBudget, tools?: ToolDefinition[]): number {
+  return budget.contextWindow - budget.reserveOutputTokens - estimateToolsTokens(tools || [], budget.model);
+}
+
+export function truncateToolResult(result: MessageContent, budget: ContextBudget): MessageContent {
+  const truncate = (text: string) => truncateToTokens(
+    text,
+    budget.maxToolResultTokens,
+    budget.model,
+    '\n\n[... tool result truncated to fit the context window ...]'
+  );
+  if (typeof result === 'string') return truncate(result);
+  // Images are charged a flat rate and kept; only text parts are clipped
+  return result.map(part => (part.type === 'text' ? { ...part, text: truncate(part.text) } : part));
+}
+
+/**
+ * Return a copy of the messages that fits the budget.
+ * Tool results from earlier rounds are elided oldest-first; if that is not
+ * enough, the remaining tool results are shrunk evenly.
+ */
+export function fitToBudget(
+  messages: LLMMessage[],
+  budget: ContextBudget,
+  tools?: ToolDefinition[]
+): LLMMessage[] {
+  const limit = availableTokens(budget, tools);
+  if (estimateMessagesTokens(messages, budget.model) <= limit) return messages;
+
+  const result = messages.map(m => ({ ...m }));
+
+  // Tool results after the last assistant tool_calls message belong to the current round
+  let currentRoundStart = result.length;
+  for (let i = result.length - 1; i >= 0; i--) {
+    if (result[i].role === 'assistant' && result[i].tool_calls?.length) {
+      currentRoundStart = i;
+      break;
+    }
+  }
+
+  for (let i = 0; i < currentRoundStart; i++) {
+    if (result[i].role !== 'tool' || result[i].content === ELIDED_TOOL_RESULT) continue;
+    result[i].content = ELIDED_TOOL_RESULT;
+    if (estimateMessagesTokens(result, budget.model) <= limit) return result;
+  }
+
+  const toolIndexes = result
+    .map((m, i) => (m.role === 'tool' && m.content !== ELIDED_TOOL_RESULT ? i : -1))
+    .filter(i => i >= 0);
+  if (toolIndexes.length === 0) return result;
+
+  const others = estimateMessagesTokens(result.filter((_, i) => !toolIndexes.includes(i)), budget.model);
+  const share = Math.max(200, Math.floor((limit - others) / toolIndexes.length));
+  for (const i of toolIndexes) {
+    // Under pressure images give way to their placeholders
+    result[i].content = truncateToolResult(contentToText(result[i].content), { ...budget, maxToolResultTokens: share });
+  }
+  return result;
+}
+
+/**
+ * Summarise a span of conversation, folding in a previous summary if there is one
+ */
+export async function summarizeMessages(
+  llmClient: LLMClient,
+  messages: LLMMessage[],
+  previousSummary?: string,
+  signal?: AbortSignal
+): Promise<string> {
+  const transcript = messages
+    .map(m => {
+      const text = contentToText(m.content);
+      if (m.role === 'user') return `User: ${text}`;
+      if (m.role === 'assistant' && m.tool_calls?.length) {
+        const calls = m.tool_calls.map(tc => `${tc.function.name}(${tc.function.arguments})`).join(', ');
+        return `${text ? `Assistant: ${text}\n` : ''}Assistant called tools: ${calls}`;
+      }
+      if (m.role === 'assistant') return `Assistant: ${text}`;
+      if (m.role === 'tool') return `Tool result: ${truncateToTokens(text, SUMMARY_TOOL_RESULT_TOKENS, undefined, ' [...]')}`;
+      return '';
+    })
+    .filter(Boolean)
+    .join('\n\n');
+
+  const input = previousSummary
+    ? `Summary of the earlier conversation:\n${previousSummary}\n\nLater messages:\n\n${transcript}`
+    : transcript;
+
+  const response = await llmClient.complete(
+    [
+      { role: 'system', content: SUMMARY_PROMPT },
+      { role: 'user', content: input },
+    ],
+    // Uncached: each summary is one-off and would only crowd out reusable entries
+    { temperature: 0.2, maxTokens: 1024, signal, cache: false }
+  );
+
+  if (!response.content) {
+    throw new Error('LLM returned empty summary');
+  }
+  return response.content.trim();
+}
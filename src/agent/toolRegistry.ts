@@ -1,11 +1,30 @@
 /**
  * Tool registry - manages agent tools and converts them to OpenAI tool definitions.
+ *
+ * Every call passes the permission policy first: 'deny' returns an error to
+ * the model, 'ask' waits for the approval handler (which may edit the args).
+ * Errors thrown by a tool are returned as a JSON error and flagged isError.
  */
 
-import type { AgentTool, ToolDefinition } from '../shared/types';
+import type {
+  AgentTool,
+  ToolApprovalDecision,
+  ToolApprovalRequest,
+  ToolDefinition,
+  ToolPermission,
+  ToolResult,
+} from '../shared/types';
+
+export type ToolApprovalHandler = (request: ToolApprovalRequest) => Promise<ToolApprovalDecision>;
+
+function toolError(message: string): ToolResult {
+  return { content: JSON.stringify({ error: message }), isError: true };
+}
 
 export class ToolRegistry {
   private tools: Map<string, AgentTool> = new Map();
+  private permissions: Record<string, ToolPermission> = {};
+  private approvalHandler: ToolApprovalHandler | null = null;
 
   register(tool: AgentTool): void {
     this.tools.set(tool.name, tool);
@@ -23,6 +42,24 @@ export class ToolRegistry {
     return Array.from(this.tools.values());
   }
 
+  /**
+   * User overrides by tool name; unlisted tools use their default permission
+   */
+  setPermissions(permissions: Record<string, ToolPermission>): void {
+    this.permissions = { ...permissions };
+  }
+
+  getPermission(name: string): ToolPermission {
+    return this.permissions[name] || this.tools.get(name)?.defaultPermission || 'allow';
+  }
+
+  /**
+   * Handler for 'ask' tools; without one those calls are rejected
+   */
+  setApprovalHandler(handler: ToolApprovalHandler | null): void {
+    this.approvalHandler = handler;
+  }
+
   /**
    * Convert all registered tools to OpenAI-compatible tool definitions
    */
@@ -40,17 +77,33 @@ export class ToolRegistry {
   /**
    * Execute a tool by name with parsed arguments
    */
-  async execute(name: string, args: Record<string, unknown>): Promise<string> {
+  async execute(name: string, args: Record<string, unknown>): Promise<ToolResult> {
     const tool = this.tools.get(name);
     if (!tool) {
-      return JSON.stringify({ error: `Unknown tool: ${name}` });
+      return toolError(`Unknown tool: ${name}`);
     }
 
     try {
-      return await tool.execute(args);
+      const permission = this.getPermission(name);
+      if (permission === 'deny') {
+        return toolError(`Tool "${name}" is disabled by the user's permission settings.`);
+      }
+
+      if (permission === 'ask') {
+        if (!this.approvalHandler) {
+          return toolError(`Tool "${name}" requires user approval, which is not available here.`);
+        }
+        const preview = tool.preview ? await tool.preview(args) : undefined;
+        const decision = await this.approvalHandler({ toolName: name, args, preview });
+        if (!decision.approved) {
+          return toolError(`The user rejected this "${name}" call. Do not retry it unless asked.`);
+        }
+        args = decision.args || args;
+      }
+
+      return { content: await tool.execute(args), isError: false };
     } catch (err) {
-      const msg = err instanceof Error ? err.message : String(err);
-      return JSON.stringify({ error: msg });
+      return toolError(err instanceof Error ? err.message : String(err));
     }
   }
 
@@ -0,0 +1,496 @@
+/**
+ * Tools: write_canvas, export_graph_canvas
+ *
+ * Both write JSON Canvas files (https://jsoncanvas.org), the format of
+ * Obsidian's .canvas files: a list of positioned nodes (text, file, link,
+ * group) and edges between them. Nodes without coordinates are laid out on a
+ * grid; groups listing their children are sized to enclose them.
+ */
+
+import { TFile, normalizePath } from 'obsidian';
+import type { App } from 'obsidian';
+import type { AgentTool, KnowledgeNode, VaultChangeRecorder } from '../../shared/types';
+import { ensureFolder } from './vaultFiles';
+import { resolveNode } from './knowledgeGraph';
+import type { GraphGetter } from './knowledgeGraph';
+import type { KnowledgeGraph } from '../../palace/knowledgeGraph';
+
+type CanvasNodeType = 'text' | 'file' | 'link' | 'group';
+type CanvasSide = 'top' | 'right' | 'bottom' | 'left';
+
+interface CanvasNode {
+  id: string;
+  type: CanvasNodeType;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color?: string;
+  text?: string;
+  file?: string;
+  subpath?: string;
+  url?: string;
+  label?: string;
+}
+
+interface CanvasEdge {
+  id: string;
+  fromNode: string;
+  toNode: string;
+  fromSide?: CanvasSide;
+  toSide?: CanvasSide;
+  label?: string;
+  color?: string;
+}
+
+interface CanvasData {
+  nodes: CanvasNode[];
+  edges: CanvasEdge[];
+}
+
+/** Positions of the 2D Palace graph as shown, or null when no view shows it */
+export type GraphLayoutGetter = () => Map<string, { x: number; y: number }> | null;
+
+const NODE_TYPES: CanvasNodeType[] = ['text', 'file', 'link', 'group'];
+const SIDES: CanvasSide[] = ['top', 'right', 'bottom', 'left'];
+
+const DEFAULT_SIZES: Record<CanvasNodeType, { width: number; height: number }> = {
+  text: { width: 300, height: 150 },
+  file: { width: 400, height: 400 },
+  link: { width: 400, height: 300 },
+  group: { width: 600, height: 400 },
+};
+
+/** Space between auto-placed nodes, and around a group's children */
+const GAP = 60;
+
+/** Canvas preset colors per knowledge-node type, so they follow the theme */
+const NODE_TYPE_COLORS: Record<string, string> = {
+  concept: '6',
+  entity: '4',
+  topic: '2',
+  fact: '5',
+};
+
+/** The 2D graph is laid out for small dots; cards need more room */
+const LAYOUT_SCALE = 2.5;
+
+function canvasId(): string {
+  let id = '';
+  for (let i = 0; i < 16; i++) id += Math.floor(Math.random() * 16).toString(16);
+  return id;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value);
+}
+
+function canvasPath(value: unknown): string {
+  const path = normalizePath(String(value || ''));
+  if (!path.endsWith('.canvas')) throw new Error('"path" must end in .canvas');
+  return path;
+}
+
+interface NodeInput {
+  id?: string;
+  type: CanvasNodeType;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  color?: string;
+  text?: string;
+  file?: string;
+  url?: string;
+  label?: string;
+  children?: string[];
+}
+
+interface EdgeInput {
+  from: string;
+  to: string;
+  label?: string;
+  from_side?: CanvasSide;
+  to_side?: CanvasSide;
+  color?: string;
+}
+
+/**
+ * Validate the model's nodes and edges and turn them into canvas data
+ */
+function buildCanvas(app: App, nodesArg: unknown, edgesArg: unknown): CanvasData {
+  if (!Array.isArray(nodesArg) || nodesArg.length === 0) throw new Error('"nodes" must be a non-empty array');
+  if (edgesArg !== undefined && !Array.isArray(edgesArg)) throw new Error('"edges" must be an array');
+
+  const nodes: CanvasNode[] = [];
+  const children = new Map<string, string[]>();
+  const ids = new Set<string>();
+
+  nodesArg.forEach((n, i) => {
+    const input = n as NodeInput;
+    if (!input || !NODE_TYPES.includes(input.type)) {
+      throw new Error(`Node ${i + 1} needs a "type" (${NODE_TYPES.join(', ')})`);
+    }
+    const id = input.id ? String(input.id) : canvasId();
+    if (ids.has(id)) throw new Error(`Duplicate node id: ${id}`);
+    ids.add(id);
+
+    const size = DEFAULT_SIZES[input.type];
+    const node: CanvasNode = {
+      id,
+      type: input.type,
+      x: isNumber(input.x) ? Math.round(input.x) : NaN,
+      y: isNumber(input.y) ? Math.round(input.y) : NaN,
+      width: isNumber(input.width) ? Math.round(input.width) : size.width,
+      height: isNumber(input.height) ? Math.round(input.height) : size.height,
+    };
+    if (input.color) node.color = String(input.color);
+
+    switch (input.type) {
+      case 'text':
+        if (typeof input.text !== 'string') throw new Error(`Text node ${id} needs "text"`);
+        node.text = input.text;
+        break;
+      case 'file': {
+        const [filePath, subpath] = String(input.file || '').split('#');
+        const file = app.vault.getAbstractFileByPath(normalizePath(filePath))
+          ?? app.metadataCache.getFirstLinkpathDest(filePath, '');
+        if (!(file instanceof TFile)) throw new Error(`File node ${id}: file not found: ${input.file}`);
+        node.file = file.path;
+        if (subpath) node.subpath = '#' + subpath;
+        break;
+      }
+      case 'link':
+        if (!/^https?:\/\//.test(String(input.url || ''))) throw new Error(`Link node ${id} needs an http(s) "url"`);
+        node.url = String(input.url);
+        break;
+      case 'group':
+        if (input.label) node.label = String(input.label);
+        if (Array.isArray(input.children)) children.set(id, input.children.map(String));
+        break;
+    }
+    nodes.push(node);
+  });
+
+  placeNodes(nodes, children);
+
+  const edges = ((edgesArg as EdgeInput[] | undefined) || []).map((e, i) => {
+    if (!e || !ids.has(String(e.from)) || !ids.has(String(e.to))) {
+      throw new Error(`Edge ${i + 1} must connect two node ids from "nodes"`);
+    }
+    const edge: CanvasEdge = { id: canvasId(), fromNode: String(e.from), toNode: String(e.to) };
+    if (e.from_side && SIDES.includes(e.from_side)) edge.fromSide = e.from_side;
+    if (e.to_side && SIDES.includes(e.to_side)) edge.toSide = e.to_side;
+    if (e.label) edge.label = String(e.label);
+    if (e.color) edge.color = String(e.color);
+    return edge;
+  });
+
+  // Groups first, so they are drawn behind their contents
+  nodes.sort((a, b) => (a.type === 'group' ? 0 : 1) - (b.type === 'group' ? 0 : 1));
+  return { nodes, edges };
+}
+
+/**
+ * Give unplaced nodes grid positions below the placed ones, then fit groups around their children
+ */
+function placeNodes(nodes: CanvasNode[], children: Map<string, string[]>): void {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const fitted = (n: CanvasNode) => children.has(n.id) && (children.get(n.id) || []).some(c => byId.has(c));
+
+  const placed = nodes.filter(n => !isNaN(n.x) && !isNaN(n.y));
+  const unplaced = nodes.filter(n => (isNaN(n.x) || isNaN(n.y)) && !fitted(n));
+  if (unplaced.length > 0) {
+    const columns = Math.ceil(Math.sqrt(unplaced.length));
+    const cellWidth = Math.max(...unplaced.map(n => n.width)) + GAP;
+    const cellHeight = Math.max(...unplaced.map(n => n.height)) + GAP;
+    const top = placed.length > 0 ? Math.max(...placed.map(n => n.y + n.height)) + GAP : 0;
+    unplaced.forEach((n, i) => {
+      n.x = (i % columns) * cellWidth;
+      n.y = top + Math.floor(i / columns) * cellHeight;
+    });
+  }
+
+  // One pass per group, so nested groups are sized before their parents are measured
+  const groups = nodes.filter(fitted);
+  for (let pass = 0; pass < groups.length; pass++) {
+    for (const group of groups) {
+      const members = (children.get(group.id) || [])
+        .map(id => byId.get(id))
+        .filter((n): n is CanvasNode => !!n && n !== group && !isNaN(n.x) && !isNaN(n.y));
+      if (members.length === 0) continue;
+      const left = Math.min(...members.map(n => n.x)) - GAP;
+      const top = Math.min(...members.map(n => n.y)) - GAP;
+      group.x = left;
+      group.y = top;
+      group.width = Math.max(...members.map(n => n.x + n.width)) + GAP - left;
+      group.height = Math.max(...members.map(n => n.y + n.height)) + GAP - top;
+    }
+  }
+  for (const group of groups) {
+    if (isNaN(group.x) || isNaN(group.y)) throw new Error(`Group ${group.id} contains only other unplaced groups`);
+  }
+}
+
+async function writeCanvas(
+  app: App,
+  path: string,
+  canvas: CanvasData,
+  overwrite: boolean,
+  tool: string,
+  onChange?: VaultChangeRecorder
+): Promise<void> {
+  const content = JSON.stringify(canvas, null, '\t');
+  const existing = app.vault.getAbstractFileByPath(path);
+  if (existing && !(existing instanceof TFile)) throw new Error(`${path} is a folder`);
+  if (existing instanceof TFile) {
+    if (!overwrite) throw new Error(`File already exists: ${path}. Set "overwrite" to replace it.`);
+    const before = await app.vault.read(existing);
+    await app.vault.modify(existing, content);
+    onChange?.({ tool, action: 'modify', path, before, after: content });
+    return;
+  }
+  await ensureFolder(app, path.substring(0, path.lastIndexOf('/')), tool, onChange);
+  await app.vault.create(path, content);
+  onChange?.({ tool, action: 'create', path, before: null, after: content });
+}
+
+function canvasPreview(app: App, path: string, canvas: CanvasData) {
+  const exists = !!app.vault.getAbstractFileByPath(path);
+  return {
+    title: `${exists ? 'Overwrite' : 'Create'} ${path} (${canvas.nodes.length} nodes, ${canvas.edges.length} edges)`,
+    kind: 'code' as const,
+    language: 'json',
+    after: JSON.stringify(canvas, null, 2),
+  };
+}
+
+/**
+ * @param onChange - receives every change for the undo journal
+ */
+export function createWriteCanvasTool(app: App, onChange?: VaultChangeRecorder): AgentTool {
+  return {
+    name: 'write_canvas',
+    parallel: false,
+    defaultPermission: 'ask',
+    description: 'Create an Obsidian canvas (.canvas) as a visual map: text cards, embedded notes, web links and groups, connected by labelled edges. Coordinates are optional; unplaced nodes are arranged on a grid.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path of the canvas file (e.g. "Maps/Project overview.canvas")',
+        },
+        nodes: {
+          type: 'array',
+          description: 'Canvas nodes',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'Id for edges and group children (generated if omitted)' },
+              type: { type: 'string', enum: NODE_TYPES },
+              text: { type: 'string', description: 'Markdown content (text nodes)' },
+              file: { type: 'string', description: 'Vault path, optionally with #heading (file nodes)' },
+              url: { type: 'string', description: 'Web address (link nodes)' },
+              label: { type: 'string', description: 'Group title (group nodes)' },
+              children: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Node ids the group encloses; its position and size are computed',
+              },
+              x: { type: 'number' },
+              y: { type: 'number' },
+              width: { type: 'number' },
+              height: { type: 'number' },
+              color: { type: 'string', description: 'Preset "1"-"6" (red, orange, yellow, green, cyan, purple) or hex like "#ff0000"' },
+            },
+            required: ['type'],
+          },
+        },
+        edges: {
+          type: 'array',
+          description: 'Arrows between nodes',
+          items: {
+            type: 'object',
+            properties: {
+              from: { type: 'string', description: 'Source node id' },
+              to: { type: 'string', description: 'Target node id' },
+              label: { type: 'string' },
+              from_side: { type: 'string', enum: SIDES },
+              to_side: { type: 'string', enum: SIDES },
+              color: { type: 'string' },
+            },
+            required: ['from', 'to'],
+          },
+        },
+        overwrite: {
+          type: 'boolean',
+          description: 'Replace an existing canvas (default: false)',
+        },
+      },
+      required: ['path', 'nodes'],
+    },
+    preview: async (args) => {
+      const path = canvasPath(args.path);
+      return canvasPreview(app, path, buildCanvas(app, args.nodes, args.edges));
+    },
+    execute: async (args) => {
+      const path = canvasPath(args.path);
+      const canvas = buildCanvas(app, args.nodes, args.edges);
+      await writeCanvas(app, path, canvas, args.overwrite === true, 'write_canvas', onChange);
+      return JSON.stringify({ success: true, path, nodes: canvas.nodes.length, edges: canvas.edges.length });
+    },
+  };
+}
+
+/**
+ * Rings around the center by hop distance, used when the Palace graph is not on screen
+ */
+function radialLayout(nodes: KnowledgeNode[], centerId: string, hops: Map<string, number>): Map<string, { x: number; y: number }> {
+  const rings = new Map<number, string[]>();
+  for (const node of nodes) {
+    const hop = node.id === centerId ? 0 : hops.get(node.id) ?? 1;
+    rings.set(hop, [...(rings.get(hop) || []), node.id]);
+  }
+  const positions = new Map<string, { x: number; y: number }>();
+  rings.forEach((ids, hop) => {
+    ids.forEach((id, i) => {
+      const angle = (2 * Math.PI * i) / ids.length;
+      // Outer rings grow with their size so cards do not overlap
+      const radius = hop === 0 ? 0 : Math.max(hop * 450, (ids.length * 360) / (2 * Math.PI));
+      positions.set(id, { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius });
+    });
+  });
+  return positions;
+}
+
+/** Hop distance of every node from the center, breadth-first */
+function hopDistances(graph: KnowledgeGraph, centerId: string): Map<string, number> {
+  const hops = new Map<string, number>([[centerId, 0]]);
+  let frontier = [centerId];
+  for (let hop = 1; frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const { node } of graph.getConnections(id)) {
+        if (hops.has(node.id)) continue;
+        hops.set(node.id, hop);
+        next.push(node.id);
+      }
+    }
+    frontier = next;
+  }
+  return hops;
+}
+
+/**
+ * @param getLayout - positions from an open 2D Palace graph
+ * @param onChange - receives every change for the undo journal
+ */
+export function createExportGraphCanvasTool(
+  app: App,
+  getGraph: GraphGetter,
+  getLayout: GraphLayoutGetter,
+  onChange?: VaultChangeRecorder
+): AgentTool {
+  const build = (args: Record<string, unknown>) => {
+    const graph = getGraph();
+    const center = resolveNode(graph, String(args.node));
+    const depth = Math.min(3, Math.max(1, Math.floor(Number(args.depth) || 1)));
+    const limit = Number(args.limit) || 60;
+    const subgraph = graph.getSubgraph(center.id, depth);
+
+    // Keep the center and its best-connected neighbours, like kg_get_subgraph
+    const neighbours = subgraph.getNodes()
+      .filter(n => n.id !== center.id)
+      .sort((a, b) => subgraph.getConnectionCount(b.id) - subgraph.getConnectionCount(a.id));
+    const kept = [center, ...neighbours].slice(0, limit);
+    const keptIds = new Set(kept.map(n => n.id));
+
+    // Use the on-screen layout when it covers every node, relative to the center
+    const shown = getLayout();
+    const useView = !!shown && kept.every(n => shown.has(n.id));
+    const positions = useView ? shown : radialLayout(kept, center.id, hopDistances(subgraph, center.id));
+    const origin = positions.get(center.id)!;
+    const scale = useView ? LAYOUT_SCALE : 1;
+    const size = DEFAULT_SIZES.text;
+
+    const ids = new Map(kept.map(n => [n.id, canvasId()]));
+    const nodes: CanvasNode[] = kept.map(n => {
+      const position = positions.get(n.id)!;
+      const lines = [`## ${n.label}`, '', `*${n.type}*`];
+      if (n.description) lines.push('', n.description);
+      if (n.sourceFile) lines.push('', `Source: [[${n.sourceFile.replace(/\.md$/, '')}]]`);
+      const node: CanvasNode = {
+        id: ids.get(n.id)!,
+        type: 'text',
+        x: Math.round((position.x - origin.x) * scale - size.width / 2),
+        y: Math.round((position.y - origin.y) * scale - size.height / 2),
+        width: size.width,
+        height: size.height,
+        text: lines.join('\n'),
+      };
+      const color = NODE_TYPE_COLORS[n.type];
+      if (color) node.color = color;
+      return node;
+    });
+
+    const edges: CanvasEdge[] = subgraph.getEdges()
+      .filter(e => keptIds.has(e.source) && keptIds.has(e.target))
+      .map(e => ({ id: canvasId(), fromNode: ids.get(e.source)!, toNode: ids.get(e.target)!, label: e.label }));
+
+    return {
+      canvas: { nodes, edges },
+      center,
+      layout: useView ? 'palace-view' : 'radial',
+      truncated: subgraph.getNodes().length > kept.length,
+    };
+  };
+
+  return {
+    name: 'export_graph_canvas',
+    parallel: false,
+    defaultPermission: 'ask',
+    description: 'Export the part of the Memory Palace knowledge graph around a node to an editable Obsidian canvas, with one card per concept and labelled arrows. Uses the layout of the open 2D graph view when available.',
+    parameters: {
+      type: 'object',
+      properties: {
+        node: {
+          type: 'string',
+          description: 'Center node id or label (as returned by kg_find_nodes)',
+        },
+        path: {
+          type: 'string',
+          description: 'Path of the canvas file (e.g. "Maps/Photosynthesis.canvas")',
+        },
+        depth: {
+          type: 'number',
+          description: 'Number of hops, 1-3 (default: 1)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of nodes (default: 60)',
+        },
+        overwrite: {
+          type: 'boolean',
+          description: 'Replace an existing canvas (default: false)',
+        },
+      },
+      required: ['node', 'path'],
+    },
+    preview: async (args) => canvasPreview(app, canvasPath(args.path), build(args).canvas),
+    execute: async (args) => {
+      const path = canvasPath(args.path);
+      const { canvas, center, layout, truncated } = build(args);
+      await writeCanvas(app, path, canvas, args.overwrite === true, 'export_graph_canvas', onChange);
+      return JSON.stringify({
+        success: true,
+        path,
+        center: center.label,
+        nodes: canvas.nodes.length,
+        edges: canvas.edges.length,
+        layout,
+        truncated,
+      });
+    },
+  };
+}
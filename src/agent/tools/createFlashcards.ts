@@ -0,0 +1,144 @@
+/**
+ * Tool: create_flashcards - Add spaced-repetition cards to the Memory Palace
+ *
+ * Cards start with the same SM-2 state as extracted cards, so they are due
+ * immediately. Fronts already in the deck (or repeated in the same call) are
+ * skipped rather than added twice.
+ */
+
+import { TFile, normalizePath } from 'obsidian';
+import type { App } from 'obsidian';
+import type { AgentTool, Flashcard, KnowledgeNode, PalaceData } from '../../shared/types';
+import { generateId } from '../../palace/graphExtractor';
+import type { GraphGetter } from './knowledgeGraph';
+
+/** Upper bound per call, to keep a runaway model from flooding the deck */
+const MAX_CARDS = 50;
+
+interface CardInput {
+  front: string;
+  back: string;
+}
+
+/** Case, whitespace and trailing punctuation do not make a different question */
+function normalizeFront(front: string): string {
+  return front.toLowerCase().replace(/\s+/g, ' ').replace(/[\s?.!:;。？！]+$/, '').trim();
+}
+
+function parseCards(value: unknown): CardInput[] {
+  if (!Array.isArray(value) || value.length === 0) throw new Error('"cards" must be a non-empty array');
+  if (value.length > MAX_CARDS) throw new Error(`At most ${MAX_CARDS} cards per call`);
+  return value.map((c, i) => {
+    const card = c as CardInput;
+    if (!card || typeof card.front !== 'string' || !card.front.trim()) throw new Error(`Card ${i + 1} needs a "front"`);
+    if (typeof card.back !== 'string' || !card.back.trim()) throw new Error(`Card ${i + 1} needs a "back"`);
+    return { front: card.front.trim(), back: card.back.trim() };
+  });
+}
+
+/** Resolve a node by id or exact label */
+function findNode(getGraph: GraphGetter, ref: string): KnowledgeNode {
+  const graph = getGraph();
+  const node = graph.getNode(ref)
+    ?? graph.getNodes().find(n => n.label.toLowerCase() === ref.trim().toLowerCase());
+  if (!node) throw new Error(`No knowledge-graph node matches "${ref}". Use kg_find_nodes to get its id.`);
+  return node;
+}
+
+/**
+ * @param getPalaceData - current palace data, null before it has loaded
+ * @param onAdded - persists the data and refreshes open Palace views
+ */
+export function createFlashcardsTool(
+  app: App,
+  getPalaceData: () => PalaceData | null,
+  getGraph: GraphGetter,
+  onAdded: () => Promise<void>
+): AgentTool {
+  return {
+    name: 'create_flashcards',
+    parallel: false,
+    description: 'Add question/answer flashcards to the Memory Palace spaced-repetition deck. New cards are due for review right away; cards whose front already exists are skipped.',
+    parameters: {
+      type: 'object',
+      properties: {
+        cards: {
+          type: 'array',
+          description: 'Cards to add: one fact or idea per card, answerable from the front alone',
+          items: {
+            type: 'object',
+            properties: {
+              front: { type: 'string', description: 'Question or prompt' },
+              back: { type: 'string', description: 'Answer' },
+            },
+            required: ['front', 'back'],
+          },
+        },
+        source_file: {
+          type: 'string',
+          description: 'Note the cards are about (e.g. "folder/note.md"); defaults to the source note of source_node',
+        },
+        source_node: {
+          type: 'string',
+          description: 'Knowledge-graph node id or label the cards belong to (from kg_find_nodes)',
+        },
+      },
+      required: ['cards'],
+    },
+    execute: async (args) => {
+      const palaceData = getPalaceData();
+      if (!palaceData) throw new Error('Memory Palace data is not loaded yet');
+      const cards = parseCards(args.cards);
+
+      const node = args.source_node ? findNode(getGraph, String(args.source_node)) : undefined;
+      let sourceFile = node?.sourceFile;
+      if (args.source_file) {
+        const file = app.vault.getAbstractFileByPath(normalizePath(String(args.source_file)));
+        if (!(file instanceof TFile)) throw new Error(`Note not found: ${args.source_file}`);
+        sourceFile = file.path;
+      }
+
+      const existing = new Map(palaceData.flashcards.map(c => [normalizeFront(c.front), c]));
+      const now = Date.now();
+      const added: Flashcard[] = [];
+      const skipped: Array<{ front: string; existingFront: string }> = [];
+
+      for (const card of cards) {
+        const key = normalizeFront(card.front);
+        const duplicate = existing.get(key);
+        if (duplicate) {
+          skipped.push({ front: card.front, existingFront: duplicate.front });
+          continue;
+        }
+        const flashcard: Flashcard = {
+          id: generateId(),
+          front: card.front,
+          back: card.back,
+          ...(node ? { sourceNodeId: node.id } : {}),
+          ...(sourceFile ? { sourceFile } : {}),
+          createdAt: now,
+          interval: 1,
+          repetitions: 0,
+          easeFactor: 2.5,
+          nextReview: now,
+        };
+        existing.set(key, flashcard);
+        added.push(flashcard);
+      }
+
+      if (added.length > 0) {
+        palaceData.flashcards.push(...added);
+        await onAdded();
+      }
+
+      return JSON.stringify({
+        success: true,
+        added: added.length,
+        skippedDuplicates: skipped,
+        sourceFile: sourceFile ?? null,
+        sourceNode: node ? { id: node.id, label: node.label } : null,
+        totalCards: palaceData.flashcards.length,
+      });
+    },
+  };
+}
@@ -0,0 +1,327 @@
+/**
+ * Tools: get_daily_note, create_daily_note, list_templates, create_note_from_template
+ *
+ * Daily-note paths follow the Periodic Notes plugin when its daily notes are
+ * enabled, otherwise the core Daily Notes plugin, the same precedence other
+ * community plugins use. Templates use the core Templates syntax:
+ * {{title}}, {{date}}, {{time}}, {{date:FORMAT}} and {{time:FORMAT}}, plus
+ * any custom {{variable}} the caller fills in.
+ */
+
+import { TFile, TFolder, moment, normalizePath } from 'obsidian';
+import type { App } from 'obsidian';
+import type { AgentTool, VaultChangeRecorder } from '../../shared/types';
+import { ensureFolder } from './vaultFiles';
+
+type Moment = ReturnType<typeof moment>;
+
+interface DailyNoteConfig {
+  format: string;
+  folder: string;
+  template: string;
+  /** Which plugin the settings came from */
+  source: 'periodic-notes' | 'daily-notes' | 'default';
+}
+
+interface TemplatesConfig {
+  folder: string;
+  dateFormat: string;
+  timeFormat: string;
+}
+
+/** Internal plugin APIs, which obsidian.d.ts does not declare */
+interface PluginHost {
+  internalPlugins?: {
+    getPluginById(id: string): { enabled: boolean; instance?: { options?: Record<string, string | undefined> } } | null;
+  };
+  plugins?: {
+    getPlugin(id: string): { settings?: { daily?: { enabled?: boolean; format?: string; folder?: string; template?: string } } } | null;
+  };
+}
+
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+const DEFAULT_TIME_FORMAT = 'HH:mm';
+
+function coreOptions(app: App, id: string): Record<string, string | undefined> | null {
+  const plugin = (app as unknown as PluginHost).internalPlugins?.getPluginById(id);
+  return plugin?.enabled ? plugin.instance?.options ?? {} : null;
+}
+
+function getDailyNoteConfig(app: App): DailyNoteConfig {
+  const periodic = (app as unknown as PluginHost).plugins?.getPlugin('periodic-notes')?.settings?.daily;
+  if (periodic?.enabled) {
+    return {
+      format: periodic.format || DEFAULT_DATE_FORMAT,
+      folder: periodic.folder || '',
+      template: periodic.template || '',
+      source: 'periodic-notes',
+    };
+  }
+  const core = coreOptions(app, 'daily-notes');
+  return {
+    format: core?.format || DEFAULT_DATE_FORMAT,
+    folder: core?.folder || '',
+    template: core?.template || '',
+    source: core ? 'daily-notes' : 'default',
+  };
+}
+
+function getTemplatesConfig(app: App): TemplatesConfig {
+  const core = coreOptions(app, 'templates');
+  return {
+    folder: core?.folder || '',
+    dateFormat: core?.dateFormat || DEFAULT_DATE_FORMAT,
+    timeFormat: core?.timeFormat || DEFAULT_TIME_FORMAT,
+  };
+}
+
+/** "today", "yesterday", "tomorrow" or YYYY-MM-DD, at the current time of day */
+function parseDate(value: unknown): Moment {
+  const text = String(value || 'today').trim().toLowerCase();
+  const offsets: Record<string, number> = { today: 0, yesterday: -1, tomorrow: 1 };
+  if (text in offsets) return moment().add(offsets[text], 'days');
+
+  const date = moment(text, 'YYYY-MM-DD', true);
+  if (!date.isValid()) throw new Error(`Invalid date: ${value} (use YYYY-MM-DD, "today", "yesterday" or "tomorrow")`);
+  const now = moment();
+  return date.hour(now.hour()).minute(now.minute()).second(now.second());
+}
+
+function dailyNotePath(config: DailyNoteConfig, date: Moment): string {
+  return normalizePath(`${config.folder}/${date.format(config.format)}.md`);
+}
+
+/**
+ * Find a template by path, with or without .md, or by name inside the templates folder
+ */
+function resolveTemplate(app: App, ref: string, templatesFolder: string): TFile {
+  const name = ref.trim().replace(/^\[\[|\]\]$/g, '');
+  const candidates = [name, `${name}.md`];
+  if (templatesFolder) candidates.push(`${templatesFolder}/${name}`, `${templatesFolder}/${name}.md`);
+  for (const candidate of candidates) {
+    const file = app.vault.getAbstractFileByPath(normalizePath(candidate));
+    if (file instanceof TFile) return file;
+  }
+  const byLink = app.metadataCache.getFirstLinkpathDest(name, '');
+  if (byLink) return byLink;
+  throw new Error(`Template not found: ${ref}. Use list_templates to see the available templates.`);
+}
+
+/**
+ * Fill template placeholders. Unknown {{variables}} are left in place and reported.
+ */
+function renderTemplate(
+  template: string,
+  context: { title: string; date: Moment; dateFormat: string; timeFormat: string; variables: Record<string, string> }
+): { content: string; unfilled: string[] } {
+  const unfilled = new Set<string>();
+  const content = template.replace(/{{\s*([^}:]+?)\s*(?::([^}]*))?}}/g, (match, rawName: string, format?: string) => {
+    const name = rawName.trim();
+    switch (name.toLowerCase()) {
+      case 'title':
+        return context.title;
+      case 'date':
+        return context.date.format(format?.trim() || context.dateFormat);
+      case 'time':
+        return context.date.format(format?.trim() || context.timeFormat);
+      case 'yesterday':
+        return context.date.clone().subtract(1, 'day').format(format?.trim() || context.dateFormat);
+      case 'tomorrow':
+        return context.date.clone().add(1, 'day').format(format?.trim() || context.dateFormat);
+    }
+    if (name in context.variables) return context.variables[name];
+    unfilled.add(name);
+    return match;
+  });
+  return { content, unfilled: Array.from(unfilled) };
+}
+
+function parseVariables(value: unknown): Record<string, string> {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) throw new Error('"variables" must be an object of name → value');
+  const variables: Record<string, string> = {};
+  for (const [name, v] of Object.entries(value as Record<string, unknown>)) {
+    variables[name] = typeof v === 'string' ? v : JSON.stringify(v);
+  }
+  return variables;
+}
+
+/** Content for a new daily note: its configured template, or empty */
+async function dailyNoteContent(app: App, config: DailyNoteConfig, date: Moment): Promise<string> {
+  if (!config.template) return '';
+  const templates = getTemplatesConfig(app);
+  const template = resolveTemplate(app, config.template, templates.folder);
+  return renderTemplate(await app.vault.read(template), {
+    title: date.format(config.format).split('/').pop() ?? '',
+    date,
+    dateFormat: config.format,
+    timeFormat: templates.timeFormat,
+    variables: {},
+  }).content;
+}
+
+const DATE_ARG = {
+  type: 'string',
+  description: '"today", "yesterday", "tomorrow" or YYYY-MM-DD (default: today)',
+};
+
+export function createGetDailyNoteTool(app: App): AgentTool {
+  return {
+    name: 'get_daily_note',
+    description: 'Find the daily note for a date using the Daily Notes / Periodic Notes settings. Returns its path, whether it exists, and its content.',
+    parameters: {
+      type: 'object',
+      properties: {
+        date: DATE_ARG,
+        include_content: {
+          type: 'boolean',
+          description: 'Return the note content if it exists (default: true)',
+        },
+      },
+      required: [],
+    },
+    execute: async (args) => {
+      const config = getDailyNoteConfig(app);
+      const date = parseDate(args.date);
+      const path = dailyNotePath(config, date);
+      const file = app.vault.getAbstractFileByPath(path);
+      const exists = file instanceof TFile;
+
+      return JSON.stringify({
+        date: date.format('YYYY-MM-DD'),
+        path,
+        exists,
+        ...(exists && args.include_content !== false ? { content: await app.vault.cachedRead(file) } : {}),
+        settings: { source: config.source, format: config.format, folder: config.folder, template: config.template || null },
+      });
+    },
+  };
+}
+
+/**
+ * @param onChange - receives every change for the undo journal
+ */
+export function createCreateDailyNoteTool(app: App, onChange?: VaultChangeRecorder): AgentTool {
+  return {
+    name: 'create_daily_note',
+    parallel: false,
+    description: 'Create the daily note for a date from the configured daily-note template. If it already exists, nothing is changed and its path is returned.',
+    parameters: {
+      type: 'object',
+      properties: {
+        date: DATE_ARG,
+      },
+      required: [],
+    },
+    execute: async (args) => {
+      const config = getDailyNoteConfig(app);
+      const date = parseDate(args.date);
+      const path = dailyNotePath(config, date);
+      if (app.vault.getAbstractFileByPath(path)) {
+        return JSON.stringify({ success: true, path, existed: true });
+      }
+
+      const content = await dailyNoteContent(app, config, date);
+      await ensureFolder(app, path.substring(0, path.lastIndexOf('/')), 'create_daily_note', onChange);
+      await app.vault.create(path, content);
+      onChange?.({ tool: 'create_daily_note', action: 'create', path, before: null, after: content });
+
+      return JSON.stringify({ success: true, path, template: config.template || null, content });
+    },
+  };
+}
+
+export function createListTemplatesTool(app: App): AgentTool {
+  return {
+    name: 'list_templates',
+    description: 'List the note templates in the Templates folder, with the {{variables}} each one uses.',
+    parameters: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+    execute: async () => {
+      const config = getTemplatesConfig(app);
+      const folder = config.folder ? app.vault.getAbstractFileByPath(normalizePath(config.folder)) : null;
+      if (!(folder instanceof TFolder)) {
+        throw new Error('No templates folder is configured. Set one in Settings → Templates, or pass a template path directly.');
+      }
+
+      const templates = [];
+      for (const file of app.vault.getMarkdownFiles()) {
+        if (!file.path.startsWith(folder.path + '/')) continue;
+        const content = await app.vault.cachedRead(file);
+        const variables = new Set<string>();
+        for (const match of content.match(/{{\s*[^}:]+?\s*(?::[^}]*)?}}/g) || []) {
+          variables.add(match.replace(/^{{\s*|\s*(?::[^}]*)?}}$/g, ''));
+        }
+        templates.push({ path: file.path, name: file.basename, variables: Array.from(variables) });
+      }
+
+      return JSON.stringify({ folder: folder.path, templates });
+    },
+  };
+}
+
+/**
+ * @param onChange - receives every change for the undo journal
+ */
+export function createNoteFromTemplateTool(app: App, onChange?: VaultChangeRecorder): AgentTool {
+  const render = async (args: Record<string, unknown>) => {
+    const path = normalizePath(String(args.path || ''));
+    if (!path.endsWith('.md')) throw new Error('"path" must be a note path ending in .md');
+    if (app.vault.getAbstractFileByPath(path)) throw new Error(`File already exists: ${path}`);
+
+    const config = getTemplatesConfig(app);
+    const template = resolveTemplate(app, String(args.template || ''), config.folder);
+    const rendered = renderTemplate(await app.vault.read(template), {
+      title: path.substring(path.lastIndexOf('/') + 1).replace(/\.md$/, ''),
+      date: parseDate(args.date),
+      dateFormat: config.dateFormat,
+      timeFormat: config.timeFormat,
+      variables: parseVariables(args.variables),
+    });
+    return { path, template: template.path, ...rendered };
+  };
+
+  return {
+    name: 'create_note_from_template',
+    parallel: false,
+    defaultPermission: 'ask',
+    description: 'Create a new note from a template, filling {{title}}, {{date}}, {{time}} and any custom {{variables}}.',
+    parameters: {
+      type: 'object',
+      properties: {
+        template: {
+          type: 'string',
+          description: 'Template path or name in the Templates folder (see list_templates)',
+        },
+        path: {
+          type: 'string',
+          description: 'Path of the new note (e.g. "Meetings/2025-01-15 Standup.md")',
+        },
+        variables: {
+          type: 'object',
+          description: 'Values for custom {{variables}} in the template',
+        },
+        date: {
+          type: 'string',
+          description: 'Date used for {{date}} and {{time}}: "today", "yesterday", "tomorrow" or YYYY-MM-DD (default: today)',
+        },
+      },
+      required: ['template', 'path'],
+    },
+    preview: async (args) => {
+      const { path, content } = await render(args);
+      return { title: `Create ${path}`, kind: 'diff', before: '', after: content };
+    },
+    execute: async (args) => {
+      const { path, template, content, unfilled } = await render(args);
+      await ensureFolder(app, path.substring(0, path.lastIndexOf('/')), 'create_note_from_template', onChange);
+      await app.vault.create(path, content);
+      onChange?.({ tool: 'create_note_from_template', action: 'create', path, before: null, after: content });
+
+      return JSON.stringify({ success: true, path, template, unfilledVariables: unfilled });
+    },
+  };
+}
@@ -0,0 +1,338 @@
+/**
+ * Tool: edit_note - Targeted edits to an existing note
+ *
+ * Operations:
+ * - replace: exact search-and-replace (the search text must be unique unless replace_all)
+ * - patch: unified-diff hunks, located by their context lines
+ * - insert_under_heading: add text at the start or end of a heading's section
+ * - replace_lines: replace a 1-based, inclusive line range
+ */
+
+import { TFile } from 'obsidian';
+import type { App } from 'obsidian';
+import type { AgentTool, VaultChangeRecorder } from '../../shared/types';
+
+type EditOperation = 'replace' | 'patch' | 'insert_under_heading' | 'replace_lines';
+
+const EDITABLE_ARG: Record<EditOperation, string> = {
+  replace: 'replace',
+  patch: 'diff',
+  insert_under_heading: 'content',
+  replace_lines: 'content',
+};
+
+interface Hunk {
+  /** 1-based start line in the original file, from the @@ header (0 if absent) */
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+}
+
+/** 1-based numbers of the lines where each occurrence starts */
+function occurrenceLines(text: string, search: string): number[] {
+  const lines: number[] = [];
+  let idx = text.indexOf(search);
+  while (idx !== -1) {
+    lines.push(text.slice(0, idx).split('\n').length);
+    idx = text.indexOf(search, idx + search.length);
+  }
+  return lines;
+}
+
+function applyReplace(text: string, search: string, replace: string, replaceAll: boolean): string {
+  if (!search) throw new Error('"search" must not be empty');
+
+  const found = occurrenceLines(text, search);
+  if (found.length === 0) {
+    throw new Error('Search text not found. It must match the note exactly, including whitespace; read the note again first.');
+  }
+  if (found.length > 1 && !replaceAll) {
+    throw new Error(`Search text is not unique: ${found.length} matches (lines ${found.join(', ')}). Include more surrounding text or set replace_all.`);
+  }
+  return replaceAll ? text.split(search).join(replace) : text.replace(search, () => replace);
+}
+
+function parseHunks(diff: string): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+
+  for (const line of diff.replace(/\r\n/g, '\n').split('\n')) {
+    // File headers only come before the first hunk; inside one, "---" is a removed "--" line
+    if (!current && (line.startsWith('---') || line.startsWith('+++'))) continue;
+    const header = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+    if (header || line.startsWith('@@')) {
+      current = { oldStart: header ? parseInt(header[1], 10) : 0, oldLines: [], newLines: [] };
+      hunks.push(current);
+      continue;
+    }
+    if (!current) {
+      if (!line.trim()) continue;
+      // Tolerate a missing @@ header
+      current = { oldStart: 0, oldLines: [], newLines: [] };
+      hunks.push(current);
+    }
+    if (line.startsWith('\\')) continue;  // "\ No newline at end of file"
+    const marker = line[0];
+    const body = line.slice(1);
+    if (marker === '-') {
+      current.oldLines.push(body);
+    } else if (marker === '+') {
+      current.newLines.push(body);
+    } else {
+      // Context; a bare empty line is an empty context line
+      current.oldLines.push(marker === ' ' ? body : line);
+      current.newLines.push(marker === ' ' ? body : line);
+    }
+  }
+
+  // Trailing empty context lines are usually an artefact of the diff's final newline
+  for (const hunk of hunks) {
+    while (
+      hunk.oldLines.length > 0 && hunk.newLines.length > 0
+      && hunk.oldLines[hunk.oldLines.length - 1] === '' && hunk.newLines[hunk.newLines.length - 1] === ''
+    ) {
+      hunk.oldLines.pop();
+      hunk.newLines.pop();
+    }
+  }
+  return hunks.filter(h => h.oldLines.length > 0 || h.newLines.length > 0);
+}
+
+/** 0-based indexes where `block` occurs in `lines` */
+function findBlock(lines: string[], block: string[], compare: (a: string, b: string) => boolean): number[] {
+  const found: number[] = [];
+  for (let i = 0; i + block.length <= lines.length; i++) {
+    if (block.every((line, j) => compare(lines[i + j], line))) found.push(i);
+  }
+  return found;
+}
+
+export function applyPatch(text: string, diff: string): string {
+  const hunks = parseHunks(diff);
+  if (hunks.length === 0) throw new Error('No hunks found in diff');
+
+  const lines = text.split('\n');
+  let offset = 0;  // line shift from hunks already applied
+
+  hunks.forEach((hunk, n) => {
+    const label = `Hunk ${n + 1}${hunk.oldStart ? ` (@@ -${hunk.oldStart})` : ''}`;
+    if (hunk.oldLines.length === 0) {
+      // Pure insertion: only the header says where
+      if (!hunk.oldStart) throw new Error(`${label} has no context lines and no line number`);
+      const at = Math.min(lines.length, hunk.oldStart + offset);
+      lines.splice(at, 0, ...hunk.newLines);
+      offset += hunk.newLines.length;
+      return;
+    }
+
+    let found = findBlock(lines, hunk.oldLines, (a, b) => a === b);
+    if (found.length === 0) {
+      found = findBlock(lines, hunk.oldLines, (a, b) => a.trimEnd() === b.trimEnd());
+    }
+    if (found.length === 0) {
+      throw new Error(`${label} does not match the note: its context and "-" lines were not found. Read the note again and regenerate the diff.`);
+    }
+
+    let at = found[0];
+    if (found.length > 1) {
+      const expected = hunk.oldStart - 1 + offset;
+      if (!hunk.oldStart || !found.includes(expected)) {
+        throw new Error(`${label} matches ${found.length} places (lines ${found.map(i => i + 1).join(', ')}). Add more context lines or a correct @@ line number.`);
+      }
+      at = expected;
+    }
+
+    lines.splice(at, hunk.oldLines.length, ...hunk.newLines);
+    offset += hunk.newLines.length - hunk.oldLines.length;
+  });
+
+  return lines.join('\n');
+}
+
+function applyInsertUnderHeading(text: string, heading: string, content: string, position: string): string {
+  const wanted = heading.replace(/^#+\s*/, '').trim().toLowerCase();
+  if (!wanted) throw new Error('"heading" must not be empty');
+
+  const lines = text.split('\n');
+  const headings: Array<{ line: number; level: number; text: string }> = [];
+  let inFence = false;
+  lines.forEach((line, i) => {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const match = !inFence && line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (match) headings.push({ line: i, level: match[1].length, text: match[2] });
+  });
+
+  const matches = headings.filter(h => h.text.trim().toLowerCase() === wanted);
+  if (matches.length === 0) {
+    const available = headings.map(h => `${'#'.repeat(h.level)} ${h.text}`).join('; ');
+    throw new Error(`Heading not found: "${heading}". Headings in this note: ${available || 'none'}`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`Heading "${heading}" is not unique: ${matches.length} matches (lines ${matches.map(h => h.line + 1).join(', ')}). Use replace_lines instead.`);
+  }
+
+  const target = matches[0];
+  const next = headings.find(h => h.line > target.line && h.level <= target.level);
+  const insertLines = content.replace(/\n+$/, '').split('\n');
+
+  if (position === 'start') {
+    lines.splice(target.line + 1, 0, ...insertLines);
+  } else {
+    // End of section, before the blank lines that separate it from the next heading
+    let at = next ? next.line : lines.length;
+    while (at > target.line + 1 && lines[at - 1].trim() === '') at--;
+    lines.splice(at, 0, ...insertLines);
+  }
+  return lines.join('\n');
+}
+
+function applyReplaceLines(text: string, startLine: number, endLine: number, content: string): string {
+  const lines = text.split('\n');
+  if (!Number.isInteger(startLine) || !Number.isInteger(endLine)) {
+    throw new Error('"start_line" and "end_line" must be integers');
+  }
+  if (startLine < 1 || endLine < startLine || endLine > lines.length) {
+    throw new Error(`Invalid line range ${startLine}-${endLine}: the note has ${lines.length} lines`);
+  }
+  const replacement = content === '' ? [] : content.replace(/\n$/, '').split('\n');
+  lines.splice(startLine - 1, endLine - startLine + 1, ...replacement);
+  return lines.join('\n');
+}
+
+/**
+ * New note text for an edit; throws with an explanation the model can act on
+ */
+function computeEdit(text: string, args: Record<string, unknown>): string {
+  const operation = String(args.operation || 'replace') as EditOperation;
+  switch (operation) {
+    case 'replace':
+      return applyReplace(text, String(args.search ?? ''), String(args.replace ?? ''), args.replace_all === true);
+    case 'patch':
+      return applyPatch(text, String(args.diff ?? ''));
+    case 'insert_under_heading':
+      return applyInsertUnderHeading(text, String(args.heading ?? ''), String(args.content ?? ''), String(args.position || 'end'));
+    case 'replace_lines':
+      return applyReplaceLines(text, Number(args.start_line), Number(args.end_line), String(args.content ?? ''));
+    default:
+      throw new Error(`Unknown operation: ${operation}. Use replace, patch, insert_under_heading or replace_lines.`);
+  }
+}
+
+/** First and last changed line of the new text, 1-based */
+function changedRange(before: string, after: string): string {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endB = b.length;
+  let endA = a.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  return endB > start ? `${start + 1}-${endB}` : `${start + 1} (lines removed)`;
+}
+
+async function readTarget(app: App, filePath: string): Promise<{ file: TFile; content: string }> {
+  const file = app.vault.getAbstractFileByPath(filePath);
+  if (!(file instanceof TFile)) {
+    throw new Error(`File not found: ${filePath}. Use write_note to create new notes.`);
+  }
+  return { file, content: await app.vault.read(file) };
+}
+
+/**
+ * @param onChange - receives every change for the undo journal
+ */
+export function createEditNoteTool(app: App, onChange?: VaultChangeRecorder): AgentTool {
+  return {
+    name: 'edit_note',
+    parallel: false,
+    defaultPermission: 'ask',
+    description: 'Make a targeted edit to an existing note without rewriting it: exact search-and-replace, unified-diff hunks, insert text under a heading, or replace a line range. Fails if the anchor is missing or ambiguous; read the note first.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Full path to the note (e.g. "folder/note.md")',
+        },
+        operation: {
+          type: 'string',
+          enum: ['replace', 'patch', 'insert_under_heading', 'replace_lines'],
+          description: 'Kind of edit (default: replace)',
+        },
+        search: {
+          type: 'string',
+          description: 'replace: exact text to find; must occur once unless replace_all is true',
+        },
+        replace: {
+          type: 'string',
+          description: 'replace: replacement text',
+        },
+        replace_all: {
+          type: 'boolean',
+          description: 'replace: replace every occurrence (default: false)',
+        },
+        diff: {
+          type: 'string',
+          description: 'patch: unified diff hunks ("@@ -l,n +l,n @@" headers, " " context, "-" removed, "+" added lines)',
+        },
+        heading: {
+          type: 'string',
+          description: 'insert_under_heading: heading text, with or without leading #',
+        },
+        position: {
+          type: 'string',
+          enum: ['start', 'end'],
+          description: 'insert_under_heading: right after the heading or at the end of its section (default: end)',
+        },
+        start_line: {
+          type: 'number',
+          description: 'replace_lines: first line to replace (1-based)',
+        },
+        end_line: {
+          type: 'number',
+          description: 'replace_lines: last line to replace (inclusive)',
+        },
+        content: {
+          type: 'string',
+          description: 'insert_under_heading / replace_lines: new text (empty to delete the lines)',
+        },
+      },
+      required: ['path'],
+    },
+    preview: async (args) => {
+      const filePath = String(args.path);
+      const operation = String(args.operation || 'replace') as EditOperation;
+      const { content } = await readTarget(app, filePath);
+
+      return {
+        title: `Edit ${filePath} (${operation.replace(/_/g, ' ')})`,
+        kind: 'diff',
+        before: content,
+        after: computeEdit(content, args),
+        editableArg: EDITABLE_ARG[operation],
+      };
+    },
+    execute: async (args) => {
+      const filePath = String(args.path);
+
+      const { file, content } = await readTarget(app, filePath);
+      const newContent = computeEdit(content, args);
+      if (newContent === content) {
+        throw new Error('The edit does not change the note');
+      }
+
+      await app.vault.modify(file, newContent);
+      onChange?.({ tool: 'edit_note', action: 'modify', path: filePath, before: content, after: newContent });
+
+      return JSON.stringify({
+        success: true,
+        path: filePath,
+        operation: String(args.operation || 'replace'),
+        changedLines: changedRange(content, newContent),
+      });
+    },
+  };
+}
@@ -7,6 +7,8 @@ import type { AgentTool, SandboxProvider } from '../../shared/types';
 export function createExecuteCodeTool(sandboxProvider: SandboxProvider | null): AgentTool {
   return {
     name: 'execute_code',
+    parallel: false,
+    defaultPermission: 'ask',
     description: 'Execute code in a secure cloud sandbox. Supports Python and JavaScript. Use this for computation, data processing, or running scripts.',
     parameters: {
       type: 'object',
@@ -23,6 +25,16 @@ export function createExecuteCodeTool(sandboxProvider: SandboxProvider | null):
       },
       required: ['code'],
     },
+    preview: async (args) => {
+      const language = String(args.language || 'python');
+      return {
+        title: `Run ${language} in the sandbox`,
+        kind: 'code',
+        after: String(args.code ?? ''),
+        language,
+        editableArg: 'code',
+      };
+    },
     execute: async (args) => {
       if (!sandboxProvider) {
         return JSON.stringify({
@@ -33,17 +45,12 @@ export function createExecuteCodeTool(sandboxProvider: SandboxProvider | null):
       const code = String(args.code);
       const language = String(args.language || 'python');
 
-      try {
-        const result = await sandboxProvider.execute(code, language);
-        return JSON.stringify({
-          stdout: result.stdout,
-          stderr: result.stderr,
-          exitCode: result.exitCode,
-        });
-      } catch (err) {
-        const msg = err instanceof Error ? err.message : String(err);
-        return JSON.stringify({ error: msg });
-      }
+      const result = await sandboxProvider.execute(code, language);
+      return JSON.stringify({
+        stdout: result.stdout,
+        stderr: result.stderr,
+        exitCode: result.exitCode,
+      });
     },
   };
 }
@@ -0,0 +1,262 @@
+/**
+ * Tools: kg_find_nodes, kg_get_connections, kg_get_subgraph, kg_find_path
+ *
+ * Read-only access to the Memory Palace knowledge graph. Every node carries
+ * its source note so answers can cite it as a [[wikilink]].
+ */
+
+import type { KnowledgeGraph } from '../../palace/knowledgeGraph';
+import type { AgentTool, KnowledgeNode } from '../../shared/types';
+
+/** The graph is replaced when palace data reloads, so tools look it up per call */
+export type GraphGetter = () => KnowledgeGraph;
+
+/** Query embedding for semantic search; null when no embedding model is configured */
+export type QueryEmbedder = (query: string) => Promise<number[] | null>;
+
+/** Minimum cosine similarity for semantic matches */
+const MIN_SEMANTIC_SCORE = 0.3;
+
+const NODE_ARG = {
+  type: 'string',
+  description: 'Node id or label (as returned by kg_find_nodes)',
+};
+
+function describeNode(graph: KnowledgeGraph, node: KnowledgeNode) {
+  return {
+    id: node.id,
+    label: node.label,
+    type: node.type,
+    description: node.description,
+    source: node.sourceFile ?? null,
+    connections: graph.getConnectionCount(node.id),
+  };
+}
+
+/** Distinct source notes, for citations */
+function sourcesOf(nodes: KnowledgeNode[]): string[] {
+  return Array.from(new Set(nodes.map(n => n.sourceFile).filter((f): f is string => !!f)));
+}
+
+const EMPTY_GRAPH = 'The knowledge graph is empty. Knowledge is added with "Extract Knowledge from Current Document".';
+
+/**
+ * Resolve a node by id, exact label, or a unique partial label match
+ */
+export function resolveNode(graph: KnowledgeGraph, ref: string): KnowledgeNode {
+  if (graph.getNodes().length === 0) throw new Error(EMPTY_GRAPH);
+  const byId = graph.getNode(ref);
+  if (byId) return byId;
+
+  const lower = ref.trim().toLowerCase();
+  const exact = graph.getNodes().filter(n => n.label.toLowerCase() === lower);
+  if (exact.length === 1) return exact[0];
+
+  const candidates = exact.length > 1 ? exact : graph.findNodes(ref);
+  if (candidates.length === 1) return candidates[0];
+  if (candidates.length === 0) throw new Error(`No node matches "${ref}". Use kg_find_nodes to search.`);
+  throw new Error(`"${ref}" matches ${candidates.length} nodes; pass one of these ids: ${candidates.slice(0, 10).map(n => `${n.id} (${n.label})`).join(', ')}`);
+}
+
+export function createKGFindNodesTool(getGraph: GraphGetter, embedQuery: QueryEmbedder): AgentTool {
+  return {
+    name: 'kg_find_nodes',
+    description: 'Search the Memory Palace knowledge graph (concepts, entities, topics and facts extracted from notes) by keyword and meaning. Returns node ids for the other kg_ tools, with source notes to cite.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Keyword or natural-language description',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of nodes (default: 10)',
+        },
+      },
+      required: ['query'],
+    },
+    execute: async (args) => {
+      const graph = getGraph();
+      const query = String(args.query || '').trim();
+      const limit = Number(args.limit) || 10;
+      if (!query) throw new Error('"query" must not be empty');
+      if (graph.getNodes().length === 0) throw new Error(EMPTY_GRAPH);
+
+      // Keyword matches first, then semantic neighbours not already found
+      const results: Array<{ node: KnowledgeNode; match: string; score?: number }> = graph
+        .findNodes(query)
+        .sort((a, b) => graph.getConnectionCount(b.id) - graph.getConnectionCount(a.id))
+        .map(node => ({ node, match: 'keyword' }));
+
+      if (results.length < limit) {
+        const vector = await embedQuery(query);
+        if (vector) {
+          for (const { node, score } of graph.findNodesSemantic(vector, limit)) {
+            if (score < MIN_SEMANTIC_SCORE || results.some(r => r.node.id === node.id)) continue;
+            results.push({ node, match: 'semantic', score: Math.round(score * 1000) / 1000 });
+          }
+        }
+      }
+
+      const shown = results.slice(0, limit);
+      return JSON.stringify({
+        total: results.length,
+        nodes: shown.map(r => ({ ...describeNode(graph, r.node), match: r.match, ...(r.score !== undefined ? { score: r.score } : {}) })),
+        sources: sourcesOf(shown.map(r => r.node)),
+      });
+    },
+  };
+}
+
+export function createKGConnectionsTool(getGraph: GraphGetter): AgentTool {
+  return {
+    name: 'kg_get_connections',
+    description: 'List the relationships of one knowledge-graph node: each related node with the relation label and direction.',
+    parameters: {
+      type: 'object',
+      properties: {
+        node: NODE_ARG,
+      },
+      required: ['node'],
+    },
+    execute: async (args) => {
+      const graph = getGraph();
+      const center = resolveNode(graph, String(args.node));
+      const connections = graph.getConnections(center.id)
+        .sort((a, b) => b.edge.weight - a.edge.weight)
+        .map(({ edge, node }) => ({
+          relation: edge.label,
+          direction: edge.source === center.id ? 'outgoing' : 'incoming',
+          weight: edge.weight,
+          node: describeNode(graph, node),
+        }));
+
+      return JSON.stringify({
+        node: describeNode(graph, center),
+        connections,
+        sources: sourcesOf([center, ...connections.map(c => graph.getNode(c.node.id)!)]),
+      });
+    },
+  };
+}
+
+export function createKGSubgraphTool(getGraph: GraphGetter): AgentTool {
+  return {
+    name: 'kg_get_subgraph',
+    description: 'Get the part of the knowledge graph within N hops of a node, as nodes and labelled relations.',
+    parameters: {
+      type: 'object',
+      properties: {
+        node: NODE_ARG,
+        depth: {
+          type: 'number',
+          description: 'Number of hops, 1-3 (default: 1)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of nodes (default: 40)',
+        },
+      },
+      required: ['node'],
+    },
+    execute: async (args) => {
+      const graph = getGraph();
+      const center = resolveNode(graph, String(args.node));
+      const depth = Math.min(3, Math.max(1, Math.floor(Number(args.depth) || 1)));
+      const limit = Number(args.limit) || 40;
+
+      const subgraph = graph.getSubgraph(center.id, depth);
+      // Keep the center and its best-connected neighbours
+      const neighbours = subgraph.getNodes()
+        .filter(n => n.id !== center.id)
+        .sort((a, b) => subgraph.getConnectionCount(b.id) - subgraph.getConnectionCount(a.id));
+      const nodes = [center, ...neighbours].slice(0, limit);
+      const kept = new Set(nodes.map(n => n.id));
+      const labelOf = (id: string) => subgraph.getNode(id)?.label ?? id;
+
+      return JSON.stringify({
+        center: center.id,
+        depth,
+        truncated: subgraph.getNodes().length > nodes.length,
+        nodes: nodes.map(n => describeNode(graph, n)),
+        relations: subgraph.getEdges()
+          .filter(e => kept.has(e.source) && kept.has(e.target))
+          .map(e => `${labelOf(e.source)} —[${e.label}]→ ${labelOf(e.target)}`),
+        sources: sourcesOf(nodes),
+      });
+    },
+  };
+}
+
+export function createKGFindPathTool(getGraph: GraphGetter): AgentTool {
+  return {
+    name: 'kg_find_path',
+    description: 'Find how two knowledge-graph nodes are related: the shortest chain of relations between them.',
+    parameters: {
+      type: 'object',
+      properties: {
+        from: NODE_ARG,
+        to: NODE_ARG,
+        max_hops: {
+          type: 'number',
+          description: 'Longest chain to consider, 1-6 (default: 4)',
+        },
+      },
+      required: ['from', 'to'],
+    },
+    execute: async (args) => {
+      const graph = getGraph();
+      const start = resolveNode(graph, String(args.from));
+      const goal = resolveNode(graph, String(args.to));
+      const maxHops = Math.min(6, Math.max(1, Math.floor(Number(args.max_hops) || 4)));
+
+      // Breadth-first over getConnections, remembering how each node was reached
+      const previous = new Map<string, { from: string; relation: string; outgoing: boolean }>();
+      const visited = new Set([start.id]);
+      let frontier = [start.id];
+      for (let hop = 0; hop < maxHops && frontier.length > 0 && !visited.has(goal.id); hop++) {
+        const next: string[] = [];
+        for (const id of frontier) {
+          for (const { edge, node } of graph.getConnections(id)) {
+            if (visited.has(node.id)) continue;
+            visited.add(node.id);
+            previous.set(node.id, { from: id, relation: edge.label, outgoing: edge.source === id });
+            next.push(node.id);
+          }
+        }
+        frontier = next;
+      }
+
+      if (!visited.has(goal.id)) {
+        return JSON.stringify({
+          from: describeNode(graph, start),
+          to: describeNode(graph, goal),
+          found: false,
+          message: `No connection within ${maxHops} hops`,
+        });
+      }
+
+      const steps: string[] = [];
+      const pathNodes: KnowledgeNode[] = [goal];
+      for (let id = goal.id; id !== start.id;) {
+        const step = previous.get(id)!;
+        const fromLabel = graph.getNode(step.from)!.label;
+        const toLabel = graph.getNode(id)!.label;
+        steps.unshift(step.outgoing
+          ? `${fromLabel} —[${step.relation}]→ ${toLabel}`
+          : `${fromLabel} ←[${step.relation}]— ${toLabel}`);
+        pathNodes.unshift(graph.getNode(step.from)!);
+        id = step.from;
+      }
+
+      return JSON.stringify({
+        found: true,
+        hops: steps.length,
+        path: steps,
+        nodes: pathNodes.map(n => describeNode(graph, n)),
+        sources: sourcesOf(pathNodes),
+      });
+    },
+  };
+}
@@ -0,0 +1,293 @@
+/**
+ * Tools: get_outgoing_links, get_backlinks, get_unresolved_links, get_link_neighborhood
+ *
+ * Read-only views of Obsidian's link graph, built on app.metadataCache.
+ * resolvedLinks / unresolvedLinks map source path → target → link count.
+ */
+
+import { TFile, getLinkpath } from 'obsidian';
+import type { App, ReferenceCache } from 'obsidian';
+import type { AgentTool } from '../../shared/types';
+
+/** Context lines shown per backlinking note */
+const MAX_CONTEXT_LINES = 3;
+
+/**
+ * Find a note by vault path, or by link text as written in a [[wikilink]]
+ */
+function resolveNote(app: App, path: string): TFile | null {
+  const byPath = app.vault.getAbstractFileByPath(path);
+  if (byPath instanceof TFile) return byPath;
+  return app.metadataCache.getFirstLinkpathDest(getLinkpath(path.replace(/^\[\[|\]\]$/g, '')), '');
+}
+
+function notFound(path: string): Error {
+  return new Error(`Note not found: ${path}`);
+}
+
+/** Links and embeds in a note's body; property links are in frontmatterLinks */
+function referencesOf(app: App, file: TFile): ReferenceCache[] {
+  const cache = app.metadataCache.getFileCache(file);
+  return [...(cache?.links || []), ...(cache?.embeds || [])];
+}
+
+function frontmatterLinksOf(app: App, file: TFile): string[] {
+  return (app.metadataCache.getFileCache(file)?.frontmatterLinks || []).map(l => l.link);
+}
+
+/** Target path → source paths, the reverse of resolvedLinks */
+function buildBacklinkIndex(app: App): Map<string, string[]> {
+  const index = new Map<string, string[]>();
+  for (const [source, targets] of Object.entries(app.metadataCache.resolvedLinks)) {
+    for (const target of Object.keys(targets)) {
+      const sources = index.get(target);
+      if (sources) sources.push(source);
+      else index.set(target, [source]);
+    }
+  }
+  return index;
+}
+
+export function createOutgoingLinksTool(app: App): AgentTool {
+  return {
+    name: 'get_outgoing_links',
+    description: 'List the wikilinks and embeds in a note, with the note each one resolves to (or null if unresolved) and the lines they appear on.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path of the note (e.g. "folder/note.md") or its link name',
+        },
+      },
+      required: ['path'],
+    },
+    execute: async (args) => {
+      const file = resolveNote(app, String(args.path));
+      if (!file) throw notFound(String(args.path));
+
+      const byTarget = new Map<string, { link: string; resolved: string | null; embed: boolean; lines: number[] }>();
+      const add = (link: string, line: number | null, embed: boolean) => {
+        const dest = app.metadataCache.getFirstLinkpathDest(getLinkpath(link), file.path);
+        const key = dest?.path || link;
+        let entry = byTarget.get(key);
+        if (!entry) {
+          entry = { link, resolved: dest?.path ?? null, embed, lines: [] };
+          byTarget.set(key, entry);
+        }
+        if (line !== null) entry.lines.push(line);
+      };
+
+      const cache = app.metadataCache.getFileCache(file);
+      for (const ref of cache?.links || []) add(ref.link, ref.position.start.line + 1, false);
+      for (const ref of cache?.embeds || []) add(ref.link, ref.position.start.line + 1, true);
+      for (const link of frontmatterLinksOf(app, file)) add(link, null, false);
+
+      const links = Array.from(byTarget.values());
+      return JSON.stringify({
+        path: file.path,
+        total: links.length,
+        unresolved: links.filter(l => !l.resolved).length,
+        links,
+      });
+    },
+  };
+}
+
+export function createBacklinksTool(app: App): AgentTool {
+  return {
+    name: 'get_backlinks',
+    description: 'List the notes that link to a note, with the lines or properties containing each link for context.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path of the note (e.g. "folder/note.md") or its link name',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of linking notes (default: 30)',
+        },
+        context: {
+          type: 'boolean',
+          description: 'Include the lines containing each link (default: true)',
+        },
+      },
+      required: ['path'],
+    },
+    execute: async (args) => {
+      const file = resolveNote(app, String(args.path));
+      if (!file) throw notFound(String(args.path));
+      const limit = Number(args.limit) || 30;
+      const withContext = args.context !== false;
+
+      const sources = Object.entries(app.metadataCache.resolvedLinks)
+        .filter(([source, targets]) => source !== file.path && targets[file.path])
+        .map(([source, targets]) => ({ source, count: targets[file.path] }))
+        .sort((a, b) => b.count - a.count);
+
+      const backlinks = [];
+      for (const { source, count } of sources.slice(0, limit)) {
+        const sourceFile = app.vault.getAbstractFileByPath(source);
+        if (!withContext || !(sourceFile instanceof TFile)) {
+          backlinks.push({ source, count });
+          continue;
+        }
+
+        const linksHere = (link: string) => app.metadataCache.getFirstLinkpathDest(getLinkpath(link), source)?.path === file.path;
+        const lines = (await app.vault.cachedRead(sourceFile)).split('\n');
+        const context = [
+          ...(app.metadataCache.getFileCache(sourceFile)?.frontmatterLinks || [])
+            .filter(ref => linksHere(ref.link))
+            .map(ref => `property ${ref.key}: ${ref.original}`),
+          ...referencesOf(app, sourceFile)
+            .filter(ref => linksHere(ref.link))
+            .map(ref => `L${ref.position.start.line + 1}: ${lines[ref.position.start.line]?.trim() ?? ''}`),
+        ].slice(0, MAX_CONTEXT_LINES);
+        backlinks.push({ source, count, context });
+      }
+
+      return JSON.stringify({
+        path: file.path,
+        total: sources.length,
+        shown: backlinks.length,
+        backlinks,
+      });
+    },
+  };
+}
+
+export function createUnresolvedLinksTool(app: App): AgentTool {
+  return {
+    name: 'get_unresolved_links',
+    description: 'List links that point to notes which do not exist yet, either for one note or across the vault (most referenced first).',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Only this note (omit for the whole vault)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of links (default: 50)',
+        },
+      },
+      required: [],
+    },
+    execute: async (args) => {
+      const limit = Number(args.limit) || 50;
+      const unresolved = app.metadataCache.unresolvedLinks;
+
+      let sourcePaths = Object.keys(unresolved);
+      if (args.path) {
+        const file = resolveNote(app, String(args.path));
+        if (!file) throw notFound(String(args.path));
+        sourcePaths = [file.path];
+      }
+
+      const byLink = new Map<string, { link: string; count: number; sources: string[] }>();
+      for (const source of sourcePaths) {
+        for (const [link, count] of Object.entries(unresolved[source] || {})) {
+          let entry = byLink.get(link);
+          if (!entry) {
+            entry = { link, count: 0, sources: [] };
+            byLink.set(link, entry);
+          }
+          entry.count += count;
+          entry.sources.push(source);
+        }
+      }
+
+      const links = Array.from(byLink.values()).sort((a, b) => b.sources.length - a.sources.length || b.count - a.count);
+      return JSON.stringify({
+        scope: args.path ? sourcePaths[0] : 'vault',
+        total: links.length,
+        shown: Math.min(limit, links.length),
+        links: links.slice(0, limit),
+      });
+    },
+  };
+}
+
+export function createLinkNeighborhoodTool(app: App): AgentTool {
+  return {
+    name: 'get_link_neighborhood',
+    description: 'Explore the notes within N link hops of a note (outgoing links, backlinks or both). Returns each note with its hop distance and the links between them.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path of the starting note or its link name',
+        },
+        depth: {
+          type: 'number',
+          description: 'Number of hops, 1-3 (default: 1)',
+        },
+        direction: {
+          type: 'string',
+          enum: ['out', 'in', 'both'],
+          description: 'Follow outgoing links, backlinks, or both (default: both)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of notes (default: 50)',
+        },
+      },
+      required: ['path'],
+    },
+    execute: async (args) => {
+      const file = resolveNote(app, String(args.path));
+      if (!file) throw notFound(String(args.path));
+      const depth = Math.min(3, Math.max(1, Math.floor(Number(args.depth) || 1)));
+      const direction = String(args.direction || 'both');
+      const limit = Number(args.limit) || 50;
+
+      const resolved = app.metadataCache.resolvedLinks;
+      const backlinkIndex = direction === 'out' ? new Map<string, string[]>() : buildBacklinkIndex(app);
+      const neighbours = (path: string): string[] => [
+        ...(direction !== 'in' ? Object.keys(resolved[path] || {}) : []),
+        ...(direction !== 'out' ? backlinkIndex.get(path) || [] : []),
+      ];
+
+      // Breadth-first, so every note gets its shortest hop distance
+      const hops = new Map<string, number>([[file.path, 0]]);
+      let frontier = [file.path];
+      let truncated = false;
+      for (let hop = 1; hop <= depth && frontier.length > 0 && !truncated; hop++) {
+        const next: string[] = [];
+        for (const path of frontier) {
+          for (const neighbour of neighbours(path)) {
+            if (hops.has(neighbour)) continue;
+            if (hops.size >= limit) {
+              truncated = true;
+              break;
+            }
+            hops.set(neighbour, hop);
+            next.push(neighbour);
+          }
+          if (truncated) break;
+        }
+        frontier = next;
+      }
+
+      const edges: Array<[string, string]> = [];
+      for (const source of hops.keys()) {
+        for (const target of Object.keys(resolved[source] || {})) {
+          if (target !== source && hops.has(target)) edges.push([source, target]);
+        }
+      }
+
+      return JSON.stringify({
+        center: file.path,
+        depth,
+        direction,
+        truncated,
+        notes: Array.from(hops.entries()).map(([path, hop]) => ({ path, hops: hop })),
+        edges,
+      });
+    },
+  };
+}
@@ -43,7 +43,7 @@ export function createListNotesTool(app: App): AgentTool {
       } else {
         const dir = app.vault.getAbstractFileByPath(folder);
         if (!dir || !('children' in dir)) {
-          return JSON.stringify({ error: `Folder not found: ${folder}` });
+          throw new Error(`Folder not found: ${folder}`);
         }
         files = (dir as TFolder).children
           .filter(f => f instanceof Object && 'extension' in f && (f as TFile).extension === 'md')
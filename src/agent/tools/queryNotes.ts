@@ -0,0 +1,263 @@
+/**
+ * Tool: query_notes - Filter notes by tags, frontmatter properties and dates
+ *
+ * A small Dataview-style query over app.metadataCache. All filters combine with AND.
+ * Comparisons are numeric when both sides are numbers, chronological when both
+ * are dates, and case-insensitive text otherwise. Dates without a time are local
+ * midnight, like the note dates Obsidian shows.
+ */
+
+import { getAllTags, moment } from 'obsidian';
+import type { App, CachedMetadata, TFile } from 'obsidian';
+import type { AgentTool } from '../../shared/types';
+
+type Operator = 'eq' | 'ne' | 'contains' | 'gt' | 'gte' | 'lt' | 'lte' | 'exists' | 'not_exists';
+
+interface Condition {
+  property: string;
+  op: Operator;
+  value?: unknown;
+}
+
+const OPERATORS: Operator[] = ['eq', 'ne', 'contains', 'gt', 'gte', 'lt', 'lte', 'exists', 'not_exists'];
+
+function normalizeTag(tag: string): string {
+  return tag.replace(/^#/, '').toLowerCase();
+}
+
+/** "project" matches #project and nested tags like #project/alpha */
+function hasTag(noteTags: string[], tag: string): boolean {
+  const wanted = normalizeTag(tag);
+  return noteTags.some(t => t === wanted || t.startsWith(wanted + '/'));
+}
+
+/** Frontmatter value for a property name, matched case-insensitively */
+function getProperty(frontmatter: Record<string, unknown> | undefined, name: string): unknown {
+  if (!frontmatter) return undefined;
+  if (name in frontmatter) return frontmatter[name];
+  const key = Object.keys(frontmatter).find(k => k.toLowerCase() === name.toLowerCase());
+  return key ? frontmatter[key] : undefined;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return null;
+}
+
+function toDate(value: unknown): number | null {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(value)) return null;
+  const date = moment(value, moment.ISO_8601);
+  return date.isValid() ? date.valueOf() : null;
+}
+
+/** Negative, zero or positive like a sort comparator; null if the values are not comparable */
+function compareValues(a: unknown, b: unknown): number | null {
+  const na = toNumber(a);
+  const nb = toNumber(b);
+  if (na !== null && nb !== null) return na - nb;
+  const da = toDate(a);
+  const db = toDate(b);
+  if (da !== null && db !== null) return da - db;
+  if (a === undefined || a === null || typeof a === 'object') return null;
+  return String(a).toLowerCase().localeCompare(String(b).toLowerCase());
+}
+
+function looseEquals(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a)) return a.some(item => looseEquals(item, b));
+  const cmp = compareValues(a, b);
+  return cmp === 0;
+}
+
+function matchesCondition(frontmatter: Record<string, unknown> | undefined, condition: Condition): boolean {
+  const actual = getProperty(frontmatter, condition.property);
+  const exists = actual !== undefined && actual !== null && actual !== '';
+
+  switch (condition.op) {
+    case 'exists': return exists;
+    case 'not_exists': return !exists;
+    case 'eq': return exists && looseEquals(actual, condition.value);
+    case 'ne': return !exists || !looseEquals(actual, condition.value);
+    case 'contains': {
+      if (!exists) return false;
+      const needle = String(condition.value ?? '').toLowerCase();
+      const items = Array.isArray(actual) ? actual : [actual];
+      return items.some(item => String(item).toLowerCase().includes(needle));
+    }
+    default: {
+      if (!exists) return false;
+      const cmp = compareValues(actual, condition.value);
+      if (cmp === null) return false;
+      if (condition.op === 'gt') return cmp > 0;
+      if (condition.op === 'gte') return cmp >= 0;
+      if (condition.op === 'lt') return cmp < 0;
+      return cmp <= 0;
+    }
+  }
+}
+
+/**
+ * Parse a date filter argument to local midnight; invalid dates are reported to the model.
+ * @param days - days to add, e.g. 1 to make a "before" date inclusive
+ */
+function parseDateArg(args: Record<string, unknown>, name: string, days = 0): number | undefined {
+  if (args[name] === undefined || args[name] === '') return undefined;
+  const date = moment(String(args[name]), 'YYYY-MM-DD');
+  if (!date.isValid()) throw new Error(`Invalid date for ${name}: ${args[name]} (use YYYY-MM-DD)`);
+  return date.add(days, 'days').valueOf();
+}
+
+function parseConditions(value: unknown): Condition[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new Error('"where" must be an array of conditions');
+  return value.map((c, i) => {
+    const condition = c as Condition;
+    if (!condition || typeof condition.property !== 'string') {
+      throw new Error(`Condition ${i + 1} needs a "property"`);
+    }
+    if (!OPERATORS.includes(condition.op)) {
+      throw new Error(`Condition ${i + 1} has unknown op "${condition.op}". Use one of: ${OPERATORS.join(', ')}`);
+    }
+    return condition;
+  });
+}
+
+export function createQueryNotesTool(app: App): AgentTool {
+  return {
+    name: 'query_notes',
+    description: 'Find notes by tags, frontmatter properties, folder and created/modified dates, like a small Dataview query. Returns paths with their tags and properties.',
+    parameters: {
+      type: 'object',
+      properties: {
+        folder: {
+          type: 'string',
+          description: 'Only notes in this folder, including subfolders',
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Tags to match, with or without # (nested tags match their parent)',
+        },
+        tag_mode: {
+          type: 'string',
+          enum: ['all', 'any'],
+          description: 'Require all tags or any of them (default: all)',
+        },
+        where: {
+          type: 'array',
+          description: 'Frontmatter conditions, all must hold',
+          items: {
+            type: 'object',
+            properties: {
+              property: { type: 'string', description: 'Frontmatter property name' },
+              op: {
+                type: 'string',
+                enum: OPERATORS,
+                description: 'eq/ne: equals (lists: has the item); contains: substring or list item; gt/gte/lt/lte: numbers or YYYY-MM-DD dates',
+              },
+              value: { description: 'Value to compare with (not needed for exists / not_exists)' },
+            },
+            required: ['property', 'op'],
+          },
+        },
+        modified_after: { type: 'string', description: 'YYYY-MM-DD' },
+        modified_before: { type: 'string', description: 'YYYY-MM-DD' },
+        created_after: { type: 'string', description: 'YYYY-MM-DD' },
+        created_before: { type: 'string', description: 'YYYY-MM-DD' },
+        sort: {
+          type: 'string',
+          description: '"modified", "created", "name" or a property name (default: modified)',
+        },
+        order: {
+          type: 'string',
+          enum: ['asc', 'desc'],
+          description: 'Sort order (default: desc)',
+        },
+        properties: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Properties to return (default: all frontmatter)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of results (default: 50)',
+        },
+      },
+      required: [],
+    },
+    execute: async (args) => {
+      const folder = String(args.folder || '').replace(/^\/+|\/+$/g, '');
+      const tags = Array.isArray(args.tags) ? args.tags.map(String) : [];
+      const tagMode = String(args.tag_mode || 'all');
+      const limit = Number(args.limit) || 50;
+      const sort = String(args.sort || 'modified');
+      const descending = String(args.order || 'desc') !== 'asc';
+      const wanted = Array.isArray(args.properties) ? args.properties.map(String) : null;
+
+      const conditions = parseConditions(args.where);
+      const dates = {
+        modifiedAfter: parseDateArg(args, 'modified_after'),
+        modifiedBefore: parseDateArg(args, 'modified_before', 1),
+        createdAfter: parseDateArg(args, 'created_after'),
+        createdBefore: parseDateArg(args, 'created_before', 1),
+      };
+
+      const inRange = (time: number, after?: number, before?: number) =>
+        (after === undefined || time >= after) && (before === undefined || time < before);
+
+      const matches: Array<{ file: TFile; cache: CachedMetadata | null; tags: string[] }> = [];
+      for (const file of app.vault.getMarkdownFiles()) {
+        if (folder && !file.path.startsWith(folder + '/')) continue;
+        if (!inRange(file.stat.mtime, dates.modifiedAfter, dates.modifiedBefore)) continue;
+        if (!inRange(file.stat.ctime, dates.createdAfter, dates.createdBefore)) continue;
+
+        const cache = app.metadataCache.getFileCache(file);
+        const noteTags = Array.from(new Set((cache ? getAllTags(cache) || [] : []).map(normalizeTag)));
+        if (tags.length > 0) {
+          const tagMatch = tagMode === 'any'
+            ? tags.some(t => hasTag(noteTags, t))
+            : tags.every(t => hasTag(noteTags, t));
+          if (!tagMatch) continue;
+        }
+
+        if (!conditions.every(c => matchesCondition(cache?.frontmatter, c))) continue;
+        matches.push({ file, cache, tags: noteTags });
+      }
+
+      const sortValue = (m: { file: TFile; cache: CachedMetadata | null }): unknown => {
+        if (sort === 'modified') return m.file.stat.mtime;
+        if (sort === 'created') return m.file.stat.ctime;
+        if (sort === 'name') return m.file.basename;
+        return getProperty(m.cache?.frontmatter, sort);
+      };
+      matches.sort((a, b) => {
+        const va = sortValue(a);
+        const vb = sortValue(b);
+        // Notes without the sort property go last in either order
+        if (va === undefined || va === null) return vb === undefined || vb === null ? 0 : 1;
+        if (vb === undefined || vb === null) return -1;
+        const cmp = compareValues(va, vb) ?? 0;
+        return descending ? -cmp : cmp;
+      });
+
+      const notes = matches.slice(0, limit).map(({ file, cache, tags: noteTags }) => {
+        const frontmatter = { ...(cache?.frontmatter || {}) } as Record<string, unknown>;
+        delete frontmatter.position;
+        let properties = frontmatter;
+        if (wanted) {
+          properties = {};
+          for (const name of wanted) properties[name] = getProperty(frontmatter, name) ?? null;
+        }
+        return {
+          path: file.path,
+          modified: moment(file.stat.mtime).format('YYYY-MM-DD'),
+          created: moment(file.stat.ctime).format('YYYY-MM-DD'),
+          tags: noteTags,
+          properties,
+        };
+      });
+
+      return JSON.stringify({ total: matches.length, shown: notes.length, notes });
+    },
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Tool: read_image - Load an image from the vault for vision models
+ */
+
+import { TFile } from 'obsidian';
+import type { App } from 'obsidian';
+import { readImagePart } from '../../shared/messageContent';
+import type { AgentTool } from '../../shared/types';
+
+export function createReadImageTool(app: App): AgentTool {
+  return {
+    name: 'read_image',
+    description: 'Look at an image in the vault (PNG, JPG, GIF or WebP), e.g. a diagram, screenshot or photo embedded in a note. Accepts a vault path or the file name used in an ![[embed]]. Requires a vision-capable model.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path of the image (e.g. "attachments/diagram.png") or its embed name',
+        },
+        source: {
+          type: 'string',
+          description: 'Path of the note that embeds the image, to resolve relative embed names',
+        },
+      },
+      required: ['path'],
+    },
+    execute: async (args) => {
+      const linkpath = String(args.path).replace(/^!?\[\[|\]\]$/g, '').split('|')[0];
+      const byPath = app.vault.getAbstractFileByPath(linkpath);
+      const file = byPath instanceof TFile
+        ? byPath
+        : app.metadataCache.getFirstLinkpathDest(linkpath, String(args.source || ''));
+
+      if (!file) {
+        throw new Error(`Image not found: ${linkpath}`);
+      }
+
+      const image = await readImagePart(app.vault, file);
+      return [
+        { type: 'text', text: JSON.stringify({ path: file.path, mimeType: image.mimeType, size: file.stat.size }) },
+        image,
+      ];
+    },
+  };
+}
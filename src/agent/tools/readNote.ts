@@ -1,14 +1,69 @@
 /**
- * Tool: read_note - Read the full content of a note
+ * Tool: read_note - Read a note, a line range, a section, or its outline
  */
 
-import type { App, TFile } from 'obsidian';
+import { TFile } from 'obsidian';
+import type { App, HeadingCache } from 'obsidian';
 import type { AgentTool } from '../../shared/types';
 
+interface Section {
+  heading: string;
+  level: number;
+  /** 1-based, inclusive; the heading line itself is startLine */
+  startLine: number;
+  endLine: number;
+}
+
+/** Heading sections with their line spans, in document order */
+function buildSections(headings: HeadingCache[], totalLines: number): Section[] {
+  return headings.map((h, i) => {
+    const next = headings.slice(i + 1).find(n => n.level <= h.level);
+    return {
+      heading: h.heading,
+      level: h.level,
+      startLine: h.position.start.line + 1,
+      endLine: next ? next.position.start.line : totalLines,
+    };
+  });
+}
+
+/**
+ * Resolve "## Setup > ### Linux" (or "Setup > Linux") to one section.
+ * Each step searches inside the previous section; # marks pin the level.
+ */
+function findSection(sections: Section[], headingPath: string): Section {
+  let scope = sections;
+  let found: Section | undefined;
+
+  for (const step of headingPath.split('>').map(s => s.trim()).filter(Boolean)) {
+    const hashes = step.match(/^#+/)?.[0].length;
+    const name = step.replace(/^#+\s*/, '').toLowerCase();
+    const matches = scope.filter(s =>
+      s.heading.trim().toLowerCase() === name
+      && (!hashes || s.level === hashes)
+      && (!found || s.level > found.level)
+    );
+
+    if (matches.length === 0) {
+      throw new Error(`Heading not found: "${step}"${found ? ` under "${found.heading}"` : ''}. Use outline mode to list headings.`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`Heading "${step}" is ambiguous: ${matches.length} matches (lines ${matches.map(s => s.startLine).join(', ')}). Add the parent heading or use a line range.`);
+    }
+
+    found = matches[0];
+    const parent = found;
+    scope = sections.filter(s => s.startLine > parent.startLine && s.startLine <= parent.endLine);
+  }
+
+  if (!found) throw new Error('"section" must name at least one heading');
+  return found;
+}
+
 export function createReadNoteTool(app: App): AgentTool {
   return {
     name: 'read_note',
-    description: 'Read the full content of a note by its path. Use search_vault first to find the path.',
+    description: 'Read a note by its path. For long notes, first get the outline (headings with line numbers), then read a section or line range. Use search_vault first to find the path.',
     parameters: {
       type: 'object',
       properties: {
@@ -16,6 +71,22 @@ export function createReadNoteTool(app: App): AgentTool {
           type: 'string',
           description: 'Full path to the note file (e.g. "folder/note.md")',
         },
+        outline: {
+          type: 'boolean',
+          description: 'Return only the heading tree with line ranges (default: false)',
+        },
+        section: {
+          type: 'string',
+          description: 'Heading path to read, e.g. "## Setup > ### Linux" or "Setup > Linux"',
+        },
+        start_line: {
+          type: 'number',
+          description: 'First line to read (1-based)',
+        },
+        end_line: {
+          type: 'number',
+          description: 'Last line to read (inclusive; default: end of note)',
+        },
       },
       required: ['path'],
     },
@@ -23,18 +94,51 @@ export function createReadNoteTool(app: App): AgentTool {
       const filePath = String(args.path);
       const file = app.vault.getAbstractFileByPath(filePath);
 
-      if (!file || !(file as TFile).extension) {
-        return JSON.stringify({ error: `File not found: ${filePath}` });
+      if (!(file instanceof TFile)) {
+        throw new Error(`File not found: ${filePath}`);
       }
 
-      const content = await app.vault.cachedRead(file as TFile);
-      const stat = (file as TFile).stat;
+      const content = await app.vault.cachedRead(file);
+      const lines = content.split('\n');
+      const totalLines = lines.length;
+      const sections = () => buildSections(app.metadataCache.getFileCache(file)?.headings || [], totalLines);
+
+      if (args.outline === true) {
+        const outline = sections()
+          .map(s => `${'  '.repeat(s.level - 1)}${'#'.repeat(s.level)} ${s.heading} [${s.startLine}-${s.endLine}]`)
+          .join('\n');
+        return JSON.stringify({ path: filePath, totalLines, outline: outline || '(no headings)' });
+      }
+
+      let startLine = 1;
+      let endLine = totalLines;
+      if (args.section) {
+        const section = findSection(sections(), String(args.section));
+        startLine = section.startLine;
+        endLine = section.endLine;
+      } else if (args.start_line !== undefined || args.end_line !== undefined) {
+        startLine = Math.max(1, Math.floor(Number(args.start_line) || 1));
+        endLine = Math.min(totalLines, Math.floor(Number(args.end_line) || totalLines));
+        if (startLine > endLine) {
+          throw new Error(`Invalid line range ${startLine}-${endLine}: the note has ${totalLines} lines`);
+        }
+      } else {
+        return JSON.stringify({
+          path: filePath,
+          content,
+          size: content.length,
+          totalLines,
+          modified: file.stat.mtime,
+        });
+      }
 
       return JSON.stringify({
         path: filePath,
-        content,
-        size: content.length,
-        modified: stat.mtime,
+        startLine,
+        endLine,
+        totalLines,
+        content: lines.slice(startLine - 1, endLine).join('\n'),
+        modified: file.stat.mtime,
       });
     },
   };
@@ -0,0 +1,174 @@
+/**
+ * Tool: update_frontmatter - Update a note's frontmatter properties
+ *
+ * Writes go through app.fileManager.processFrontMatter, which parses and
+ * re-serializes the YAML atomically, so the note body is never touched.
+ */
+
+import { TFile, getFrontMatterInfo, parseYaml, stringifyYaml } from 'obsidian';
+import type { App } from 'obsidian';
+import type { AgentTool, VaultChangeRecorder } from '../../shared/types';
+
+type FrontmatterOp = 'set' | 'delete' | 'add' | 'remove';
+
+interface PropertyOperation {
+  op: FrontmatterOp;
+  property: string;
+  value?: unknown;
+}
+
+const OPS: FrontmatterOp[] = ['set', 'delete', 'add', 'remove'];
+
+function parseOperations(value: unknown): PropertyOperation[] {
+  if (!Array.isArray(value) || value.length === 0) throw new Error('"operations" must be a non-empty array');
+  return value.map((o, i) => {
+    const operation = o as PropertyOperation;
+    if (!operation || typeof operation.property !== 'string' || !operation.property.trim()) {
+      throw new Error(`Operation ${i + 1} needs a "property"`);
+    }
+    if (!OPS.includes(operation.op)) {
+      throw new Error(`Operation ${i + 1} has unknown op "${operation.op}". Use one of: ${OPS.join(', ')}`);
+    }
+    if (operation.op !== 'delete' && operation.value === undefined) {
+      const hint = operation.op === 'set' ? '; to remove the property, use op "delete"' : '';
+      throw new Error(`Operation ${i + 1} (${operation.op}) needs a "value"${hint}`);
+    }
+    return operation;
+  });
+}
+
+/** Tags are stored without the leading # */
+function normalizeItem(property: string, item: unknown): unknown {
+  return property === 'tags' && typeof item === 'string' ? item.replace(/^#/, '') : item;
+}
+
+function sameItem(a: unknown, b: unknown): boolean {
+  return typeof a === 'string' && typeof b === 'string'
+    ? a.toLowerCase() === b.toLowerCase()
+    : JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Apply operations to a frontmatter object in place
+ */
+function applyOperations(frontmatter: Record<string, unknown>, operations: PropertyOperation[]): void {
+  for (const { op, property, value } of operations) {
+    const items = (Array.isArray(value) ? value : [value]).map(item => normalizeItem(property, item));
+    const current = frontmatter[property];
+
+    switch (op) {
+      case 'set':
+        frontmatter[property] = Array.isArray(value) ? items : normalizeItem(property, value);
+        break;
+      case 'delete':
+        delete frontmatter[property];
+        break;
+      case 'add': {
+        const list = current === undefined || current === null ? [] : Array.isArray(current) ? [...current] : [current];
+        for (const item of items) {
+          if (!list.some(existing => sameItem(existing, item))) list.push(item);
+        }
+        frontmatter[property] = list;
+        break;
+      }
+      case 'remove': {
+        if (Array.isArray(current)) {
+          frontmatter[property] = current.filter(existing => !items.some(item => sameItem(existing, item)));
+        } else if (items.some(item => sameItem(current, item))) {
+          delete frontmatter[property];
+        }
+        break;
+      }
+    }
+  }
+}
+
+function readFrontmatter(content: string): Record<string, unknown> {
+  const info = getFrontMatterInfo(content);
+  if (!info.exists) return {};
+  return (parseYaml(info.frontmatter) as Record<string, unknown>) || {};
+}
+
+function resolveFile(app: App, filePath: string): TFile {
+  const file = app.vault.getAbstractFileByPath(filePath);
+  if (!(file instanceof TFile) || file.extension !== 'md') {
+    throw new Error(`Note not found: ${filePath}`);
+  }
+  return file;
+}
+
+/**
+ * @param onChange - receives every change for the undo journal
+ */
+export function createUpdateFrontmatterTool(app: App, onChange?: VaultChangeRecorder): AgentTool {
+  return {
+    name: 'update_frontmatter',
+    parallel: false,
+    defaultPermission: 'ask',
+    description: 'Update the frontmatter properties of a note (status, tags, due, aliases...) without touching its body. Operations: set, delete, add (to a list), remove (from a list). Returns the resulting properties.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Full path to the note (e.g. "folder/note.md")',
+        },
+        operations: {
+          type: 'array',
+          description: 'Changes applied in order',
+          items: {
+            type: 'object',
+            properties: {
+              op: { type: 'string', enum: OPS },
+              property: { type: 'string', description: 'Property name (e.g. "status", "tags")' },
+              value: { description: 'New value for set (use null for an empty property); item or list of items for add/remove' },
+            },
+            required: ['op', 'property'],
+          },
+        },
+      },
+      required: ['path', 'operations'],
+    },
+    preview: async (args) => {
+      const filePath = String(args.path);
+      const operations = parseOperations(args.operations);
+      const before = await app.vault.read(resolveFile(app, filePath));
+
+      // Approximates processFrontMatter's serialization for display
+      const frontmatter = readFrontmatter(before);
+      applyOperations(frontmatter, operations);
+      const info = getFrontMatterInfo(before);
+      const body = info.exists ? before.slice(info.contentStart) : before;
+      const yaml = Object.keys(frontmatter).length > 0 ? `---\n${stringifyYaml(frontmatter)}---\n` : '';
+
+      return {
+        title: `Update properties of ${filePath}`,
+        kind: 'diff',
+        before,
+        after: yaml + body,
+      };
+    },
+    execute: async (args) => {
+      const filePath = String(args.path);
+
+      const file = resolveFile(app, filePath);
+      const operations = parseOperations(args.operations);
+
+      const before = await app.vault.read(file);
+      await app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+        applyOperations(frontmatter, operations);
+      });
+      const after = await app.vault.read(file);
+      if (after !== before) {
+        onChange?.({ tool: 'update_frontmatter', action: 'modify', path: filePath, before, after });
+      }
+
+      return JSON.stringify({
+        success: true,
+        path: filePath,
+        applied: operations.length,
+        properties: readFrontmatter(after),
+      });
+    },
+  };
+}
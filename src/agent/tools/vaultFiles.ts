@@ -0,0 +1,231 @@
+/**
+ * Tools: move_file, rename_file, create_folder, trash_file
+ *
+ * Moves and renames go through app.fileManager.renameFile, which rewrites
+ * links to the file when "Automatically update internal links" is on.
+ * Deletion only moves to the trash configured in Obsidian, and only for
+ * files whose content the undo journal can keep.
+ */
+
+import { TFile, TFolder, normalizePath } from 'obsidian';
+import type { App, TAbstractFile } from 'obsidian';
+import type { AgentTool, VaultChangeRecorder } from '../../shared/types';
+
+/** Text formats the journal can restore after trashing */
+const TRASHABLE_EXTENSIONS = ['md', 'canvas', 'txt', 'json', 'csv'];
+
+function getItem(app: App, path: string): TAbstractFile {
+  const item = app.vault.getAbstractFileByPath(normalizePath(path));
+  if (!item) throw new Error(`Not found: ${path}`);
+  return item;
+}
+
+/**
+ * Create missing parent folders one level at a time, so each gets a journal entry
+ */
+export async function ensureFolder(app: App, path: string, tool: string, onChange?: VaultChangeRecorder): Promise<void> {
+  if (!path) return;
+  const existing = app.vault.getAbstractFileByPath(path);
+  if (existing instanceof TFolder) return;
+  if (existing) throw new Error(`${path} exists and is not a folder`);
+
+  await ensureFolder(app, path.substring(0, path.lastIndexOf('/')), tool, onChange);
+  await app.vault.createFolder(path);
+  onChange?.({ tool, action: 'create_folder', path, before: null, after: null });
+}
+
+/** Notes whose links to the item renameFile would rewrite */
+function linkingNotes(app: App, item: TAbstractFile): string[] {
+  const prefix = item instanceof TFolder ? item.path + '/' : null;
+  return Object.entries(app.metadataCache.resolvedLinks)
+    .filter(([, targets]) => Object.keys(targets).some(t => (prefix ? t.startsWith(prefix) : t === item.path)))
+    .map(([source]) => source);
+}
+
+async function moveItem(
+  app: App,
+  from: string,
+  to: string,
+  tool: string,
+  onChange?: VaultChangeRecorder
+): Promise<string> {
+  const item = getItem(app, from);
+  const target = normalizePath(to);
+  if (target === item.path) throw new Error('Source and destination are the same');
+  if (app.vault.getAbstractFileByPath(target)) throw new Error(`Destination already exists: ${target}`);
+  if (item instanceof TFolder && target.startsWith(item.path + '/')) {
+    throw new Error('Cannot move a folder into itself');
+  }
+
+  const linksUpdated = linkingNotes(app, item).length;
+  await ensureFolder(app, target.substring(0, target.lastIndexOf('/')), tool, onChange);
+  const originalPath = item.path;
+  await app.fileManager.renameFile(item, target);
+  onChange?.({ tool, action: 'move', path: target, from: originalPath, before: null, after: null });
+
+  return JSON.stringify({ success: true, from: originalPath, to: target, linkingNotes: linksUpdated });
+}
+
+function movePreview(app: App, from: string, to: string) {
+  const item = getItem(app, from);
+  const notes = linkingNotes(app, item);
+  const lines = [`${item.path} → ${normalizePath(to)}`];
+  if (notes.length > 0) {
+    lines.push('', `Links will be updated in ${notes.length} note(s):`, ...notes.map(n => `- ${n}`));
+  }
+  return { title: `Move ${item.path}`, kind: 'code' as const, after: lines.join('\n') };
+}
+
+/**
+ * @param onChange - receives every change for the undo journal
+ */
+export function createMoveFileTool(app: App, onChange?: VaultChangeRecorder): AgentTool {
+  return {
+    name: 'move_file',
+    parallel: false,
+    defaultPermission: 'ask',
+    description: 'Move a note, attachment or folder to a new path; links to it are updated. Missing destination folders are created.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Current path (e.g. "Inbox/idea.md" or "Projects/Old")',
+        },
+        new_path: {
+          type: 'string',
+          description: 'Full destination path including the file name (e.g. "Archive/2024/idea.md")',
+        },
+      },
+      required: ['path', 'new_path'],
+    },
+    preview: async (args) => movePreview(app, String(args.path), String(args.new_path)),
+    execute: async (args) => {
+      return await moveItem(app, String(args.path), String(args.new_path), 'move_file', onChange);
+    },
+  };
+}
+
+/**
+ * @param onChange - receives every change for the undo journal
+ */
+export function createRenameFileTool(app: App, onChange?: VaultChangeRecorder): AgentTool {
+  const targetPath = (path: string, newName: string): string => {
+    const item = getItem(app, path);
+    if (/[\\/:]/.test(newName)) throw new Error('The new name must not contain / \\ or :; use move_file to change folders');
+    const folder = item.parent && !item.parent.isRoot() ? item.parent.path + '/' : '';
+    // Keep the extension unless the new name brings its own
+    const extension = item instanceof TFile && !newName.toLowerCase().endsWith('.' + item.extension) ? '.' + item.extension : '';
+    return folder + newName + extension;
+  };
+
+  return {
+    name: 'rename_file',
+    parallel: false,
+    defaultPermission: 'ask',
+    description: 'Rename a note, attachment or folder in place; links to it are updated.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Current path (e.g. "Notes/draft.md")',
+        },
+        new_name: {
+          type: 'string',
+          description: 'New name, without folder (the extension is kept if omitted)',
+        },
+      },
+      required: ['path', 'new_name'],
+    },
+    preview: async (args) => {
+      const path = String(args.path);
+      return movePreview(app, path, targetPath(path, String(args.new_name).trim()));
+    },
+    execute: async (args) => {
+      const path = String(args.path);
+      return await moveItem(app, path, targetPath(path, String(args.new_name).trim()), 'rename_file', onChange);
+    },
+  };
+}
+
+/**
+ * @param onChange - receives every change for the undo journal
+ */
+export function createCreateFolderTool(app: App, onChange?: VaultChangeRecorder): AgentTool {
+  return {
+    name: 'create_folder',
+    parallel: false,
+    description: 'Create a folder (and any missing parent folders) in the vault.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Folder path (e.g. "Projects/2025")',
+        },
+      },
+      required: ['path'],
+    },
+    execute: async (args) => {
+      const path = normalizePath(String(args.path));
+      if (app.vault.getAbstractFileByPath(path) instanceof TFolder) {
+        return JSON.stringify({ success: true, path, existed: true });
+      }
+      await ensureFolder(app, path, 'create_folder', onChange);
+      return JSON.stringify({ success: true, path });
+    },
+  };
+}
+
+/**
+ * @param onChange - receives every change for the undo journal
+ */
+export function createTrashFileTool(app: App, onChange?: VaultChangeRecorder): AgentTool {
+  /** The item to trash, if the journal can restore it */
+  const trashable = (path: string): TFile | TFolder => {
+    const item = getItem(app, path);
+    if (item instanceof TFolder) {
+      if (item.children.length > 0) throw new Error(`Folder is not empty: ${item.path}. Move or trash its contents first.`);
+      return item;
+    }
+    if (!(item instanceof TFile) || !TRASHABLE_EXTENSIONS.includes(item.extension)) {
+      throw new Error(`Only notes and text files (${TRASHABLE_EXTENSIONS.join(', ')}) or empty folders can be trashed`);
+    }
+    return item;
+  };
+
+  return {
+    name: 'trash_file',
+    parallel: false,
+    defaultPermission: 'ask',
+    description: 'Move a note, text file or empty folder to the trash (never deletes permanently). Links to it become unresolved.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path of the note or empty folder',
+        },
+      },
+      required: ['path'],
+    },
+    preview: async (args) => {
+      const item = trashable(String(args.path));
+      return {
+        title: `Move ${item.path} to the trash`,
+        kind: 'diff',
+        before: item instanceof TFile ? await app.vault.read(item) : '',
+        after: '',
+      };
+    },
+    execute: async (args) => {
+      const item = trashable(String(args.path));
+      const before = item instanceof TFile ? await app.vault.read(item) : null;
+      const linkingCount = linkingNotes(app, item).length;
+      await app.fileManager.trashFile(item);
+      onChange?.({ tool: 'trash_file', action: 'trash', path: item.path, before, after: null });
+      return JSON.stringify({ success: true, path: item.path, brokenLinksFrom: linkingCount });
+    },
+  };
+}
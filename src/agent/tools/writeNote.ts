@@ -4,11 +4,16 @@
 
 import { TFile } from 'obsidian';
 import type { App } from 'obsidian';
-import type { AgentTool } from '../../shared/types';
+import type { AgentTool, VaultChangeRecorder } from '../../shared/types';
 
-export function createWriteNoteTool(app: App): AgentTool {
+/**
+ * @param onChange - receives every change for the undo journal
+ */
+export function createWriteNoteTool(app: App, onChange?: VaultChangeRecorder): AgentTool {
   return {
     name: 'write_note',
+    parallel: false,
+    defaultPermission: 'ask',
     description: 'Create a new note or overwrite an existing note in the vault.',
     parameters: {
       type: 'object',
@@ -29,6 +34,22 @@ export function createWriteNoteTool(app: App): AgentTool {
       },
       required: ['path', 'content'],
     },
+    preview: async (args) => {
+      const filePath = String(args.path);
+      const content = String(args.content ?? '');
+      const mode = String(args.mode || 'create');
+
+      const existing = app.vault.getAbstractFileByPath(filePath);
+      const before = existing instanceof TFile ? await app.vault.read(existing) : '';
+
+      return {
+        title: existing ? `${mode === 'append' ? 'Append to' : 'Overwrite'} ${filePath}` : `Create ${filePath}`,
+        kind: 'diff',
+        before,
+        after: mode === 'append' && existing ? before + '\n' + content : content,
+        editableArg: 'content',
+      };
+    },
     execute: async (args) => {
       const filePath = String(args.path);
       const content = String(args.content);
@@ -37,34 +58,28 @@ export function createWriteNoteTool(app: App): AgentTool {
       const existing = app.vault.getAbstractFileByPath(filePath);
 
       if (mode === 'create' && existing) {
-        return JSON.stringify({ error: `File already exists: ${filePath}. Use mode "overwrite" or "append".` });
+        throw new Error(`File already exists: ${filePath}. Use mode "overwrite" or "append".`);
       }
 
-      try {
-        if (existing instanceof TFile) {
-          if (mode === 'append') {
-            const oldContent = await app.vault.read(existing);
-            await app.vault.modify(existing, oldContent + '\n' + content);
-          } else {
-            await app.vault.modify(existing, content);
-          }
-        } else {
-          // Ensure parent directory exists
-          const dir = filePath.substring(0, filePath.lastIndexOf('/'));
-          if (dir) {
-            const dirExists = app.vault.getAbstractFileByPath(dir);
-            if (!dirExists) {
-              await app.vault.createFolder(dir);
-            }
+      if (existing instanceof TFile) {
+        const oldContent = await app.vault.read(existing);
+        const newContent = mode === 'append' ? oldContent + '\n' + content : content;
+        await app.vault.modify(existing, newContent);
+        onChange?.({ tool: 'write_note', action: 'modify', path: filePath, before: oldContent, after: newContent });
+      } else {
+        // Ensure parent directory exists
+        const dir = filePath.substring(0, filePath.lastIndexOf('/'));
+        if (dir) {
+          const dirExists = app.vault.getAbstractFileByPath(dir);
+          if (!dirExists) {
+            await app.vault.createFolder(dir);
           }
-          await app.vault.create(filePath, content);
         }
-
-        return JSON.stringify({ success: true, path: filePath, mode });
-      } catch (err) {
-        const msg = err instanceof Error ? err.message : String(err);
-        return JSON.stringify({ error: msg });
+        await app.vault.create(filePath, content);
+        onChange?.({ tool: 'write_note', action: 'create', path: filePath, before: null, after: content });
       }
+
+      return JSON.stringify({ success: true, path: filePath, mode });
     },
   };
 }
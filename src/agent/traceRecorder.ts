@@ -0,0 +1,110 @@
+/**
+ * Trace Recorder - captures what one agent turn sent and received
+ * (LLM round-trips, tool executions, timings) for debugging.
+ */
+
+import type { AgentTrace, LLMMessage, TraceEvent, ToolDefinition } from '../shared/types';
+import { formatTokens } from '../shared/usageLedger';
+import { contentToText } from '../shared/messageContent';
+
+export class TraceRecorder {
+  private trace: AgentTrace;
+
+  constructor(info: { id: string; sessionId: string; sessionTitle: string; model: string; skill?: string }) {
+    this.trace = {
+      ...info,
+      systemPrompt: '',
+      tools: [],
+      startedAt: Date.now(),
+      durationMs: 0,
+      events: [],
+    };
+  }
+
+  setRequestContext(systemPrompt: string, tools: ToolDefinition[]): void {
+    this.trace.systemPrompt = systemPrompt;
+    this.trace.tools = tools;
+  }
+
+  add(event: TraceEvent): void {
+    this.trace.events.push(event);
+  }
+
+  finish(error?: unknown): AgentTrace {
+    this.trace.durationMs = Date.now() - this.trace.startedAt;
+    if (error) this.trace.error = error instanceof Error ? error.message : String(error);
+    return this.trace;
+  }
+}
+
+/**
+ * Render a trace as a Markdown note
+ */
+export function formatTraceMarkdown(trace: AgentTrace): string {
+  const llmEvents = trace.events.filter(e => e.type === 'llm');
+  const toolEvents = trace.events.filter(e => e.type === 'tool');
+  const promptTokens = llmEvents.reduce((n, e) => n + (e.type === 'llm' ? e.response?.usage?.prompt_tokens || 0 : 0), 0);
+  const completionTokens = llmEvents.reduce((n, e) => n + (e.type === 'llm' ? e.response?.usage?.completion_tokens || 0 : 0), 0);
+
+  const lines: string[] = [
+    `# Agent trace: ${trace.sessionTitle}`,
+    '',
+    `- **Started:** ${new Date(trace.startedAt).toLocaleString()}`,
+    `- **Model:** ${trace.model}`,
+    `- **Duration:** ${formatDuration(trace.durationMs)}`,
+    `- **LLM calls:** ${llmEvents.length} · **Tool calls:** ${toolEvents.length}`,
+    `- **Tokens:** ${formatTokens(promptTokens)} in / ${formatTokens(completionTokens)} out`,
+  ];
+  if (trace.skill) lines.push(`- **Skill:** ${trace.skill}`);
+  if (trace.error) lines.push(`- **Error:** ${trace.error}`);
+
+  lines.push('', '## System prompt', '', fence(trace.systemPrompt));
+  lines.push('', `## Tools (${trace.tools.length})`, '');
+  lines.push(trace.tools.map(t => `\`${t.function.name}\``).join(', ') || '_none_');
+  if (trace.tools.length > 0) lines.push('', fence(JSON.stringify(trace.tools, null, 2), 'json'));
+
+  for (const event of trace.events) {
+    lines.push('');
+    if (event.type === 'llm') {
+      const usage = event.response?.usage;
+      const tokens = usage ? `, ${usage.prompt_tokens} → ${usage.completion_tokens} tokens` : '';
+      lines.push(`## Round ${event.iteration}: LLM call (${formatDuration(event.durationMs)}${tokens})`, '');
+      lines.push(`### Request (${event.messages.length} messages)`, '');
+      for (const msg of event.messages) {
+        lines.push(`**${msg.role}**${msg.tool_call_id ? ` (${msg.tool_call_id})` : ''}`, '');
+        lines.push(fence(formatMessage(msg)), '');
+      }
+      lines.push('### Response', '');
+      if (event.error) {
+        lines.push(`**Error:** ${event.error}`);
+      } else if (event.response) {
+        lines.push(`Finish reason: \`${event.response.finish_reason}\``, '');
+        if (event.response.reasoning) lines.push('Reasoning:', '', fence(event.response.reasoning), '');
+        if (event.response.content) lines.push(fence(event.response.content), '');
+        if (event.response.tool_calls) lines.push(fence(JSON.stringify(event.response.tool_calls, null, 2), 'json'));
+      }
+    } else {
+      lines.push(`### Tool: ${event.name} (${formatDuration(event.durationMs)})`, '');
+      lines.push(fence(JSON.stringify(event.args, null, 2), 'json'), '');
+      lines.push(fence(event.result));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function formatMessage(msg: LLMMessage): string {
+  const calls = msg.tool_calls?.map(tc => `→ ${tc.function.name}(${tc.function.arguments})`).join('\n');
+  return [contentToText(msg.content), calls].filter(Boolean).join('\n') || '(empty)';
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/** Fenced block that cannot be closed early by backticks or tildes in the content */
+function fence(text: string, lang = 'text'): string {
+  const longest = Math.max(2, ...(text.match(/~+/g) || []).map(m => m.length));
+  const marker = '~'.repeat(longest + 1);
+  return `${marker}${lang}\n${text}\n${marker}`;
+}
@@ -7,15 +7,20 @@ import {
   setIcon, FuzzySuggestModal, TFile, App
 } from 'obsidian';
 import type ObsidianPalacePlugin from './main';
-import { LLMClient } from './shared/llmClient';
 import { AgentRunner } from './agent/agentRunner';
-import { ToolRegistry } from './agent/toolRegistry';
-import { createSearchVaultTool } from './agent/tools/searchVault';
-import { createReadNoteTool } from './agent/tools/readNote';
-import { createWriteNoteTool } from './agent/tools/writeNote';
-import { createListNotesTool } from './agent/tools/listNotes';
-import { createExecuteCodeTool } from './agent/tools/executeCode';
-import type { LLMMessage, ChatSession, ChatMessage } from './shared/types';
+import { formatCost, formatTokens } from './shared/usageLedger';
+import { resolveModelRoute } from './shared/modelRouting';
+import { estimateMessagesTokens, estimateTokens, truncateToTokens } from './shared/tokenEstimator';
+import { availableTokens, createContextBudget, summarizeMessages } from './agent/contextCompactor';
+import { diffLines } from './shared/textDiff';
+import { TraceRecorder } from './agent/traceRecorder';
+import { CHANGE_ACTION_LABELS } from './agent/changeJournal';
+import { buildContent, contentToText, IMAGE_MIME_TYPES, isImageFile, readImagePart } from './shared/messageContent';
+import type { ContextBudget } from './agent/contextCompactor';
+import type { LLMClient } from './shared/llmClient';
+import type {
+  LLMMessage, ChatSession, ChatMessage, ImagePart, ToolApprovalDecision, ToolApprovalRequest, ToolCall, ToolDefinition,
+} from './shared/types';
 
 export const CHAT_VIEW_TYPE = 'ai-chat-view';
 
@@ -42,6 +47,35 @@ class DocSearchModal extends FuzzySuggestModal<TFile> {
   }
 }
 
+/* ---- Image Picker Modal ---- */
+class ImagePickerModal extends FuzzySuggestModal<TFile> {
+  private onChoose: (file: TFile) => void;
+
+  constructor(app: App, onChoose: (file: TFile) => void) {
+    super(app);
+    this.onChoose = onChoose;
+    this.setPlaceholder('Attach an image...');
+  }
+
+  getItems(): TFile[] {
+    return this.app.vault.getFiles().filter(isImageFile).sort((a, b) => b.stat.mtime - a.stat.mtime);
+  }
+
+  getItemText(file: TFile): string {
+    return file.path;
+  }
+
+  onChooseItem(file: TFile): void {
+    this.onChoose(file);
+  }
+}
+
+/** Live reasoning display for one model call */
+interface ThinkingBlock {
+  push(token: string): void;
+  end(): void;
+}
+
 /* ---- Constants ---- */
 const QUICK_ACTIONS = [
   { label: '📝 Summary', prompt: 'Summarize this document concisely, listing key points.' },
@@ -54,10 +88,15 @@ const QUICK_ACTIONS = [
 const AGENT_SYSTEM_PROMPT = `You are an AI assistant embedded in Obsidian, a knowledge management tool. You have access to the user's vault (document collection) through tools.
 
 Capabilities:
-- Search, read, and write notes in the vault
+- Search, read, write, move, rename and trash notes in the vault (every change can be undone by the user)
+- Query notes by tags, frontmatter properties and dates
+- Find or create daily notes and create notes from templates
+- Draw canvases (visual maps), including exports of the Memory Palace graph
+- Follow the link graph: outgoing links, backlinks, unresolved links and link neighbourhoods
 - Execute code in a cloud sandbox (if configured)
 - Answer questions based on document context
-- Extract knowledge and build knowledge graphs
+- Extract knowledge and build knowledge graphs, and query the Memory Palace graph
+- Create spaced-repetition flashcards in the Memory Palace
 - Search entire vault with semantic search (if Vault QA is enabled)
 
 Rules:
@@ -66,7 +105,15 @@ Rules:
 3. Use Markdown formatting in responses.
 4. Be concise and accurate.
 5. If you need more information, search the vault or ask the user.
-6. For questions about the entire knowledge base, use search_vault_qa if available.`;
+6. For questions about the entire knowledge base, use search_vault_qa if available.
+7. For how concepts relate, query the Memory Palace graph (kg_ tools) and cite the source notes as [[wikilinks]].`;
+
+/** Compact once the prompt uses this share of the available context */
+const COMPACT_THRESHOLD = 0.75;
+/** Most recent messages always kept verbatim */
+const KEEP_RECENT_MESSAGES = 6;
+/** Share of the available context a selected document may take */
+const DOC_CONTEXT_SHARE = 0.4;
 
 /* ---- ChatView ---- */
 export class ChatView extends ItemView {
@@ -83,9 +130,14 @@ export class ChatView extends ItemView {
   private messagesContainer: HTMLElement;
   private inputEl: HTMLTextAreaElement;
   private sendBtn: HTMLButtonElement;
+  private attachmentsEl: HTMLElement;
   private docInfoEl: HTMLElement;
+  private usageEl: HTMLElement;
   private isLoading = false;
 
+  // Images attached to the next message
+  private pendingImages: TFile[] = [];
+
   // Doc context
   private selectedFile: TFile | null = null;
   private selectedDocContent: string | null = null;
@@ -174,7 +226,7 @@ export class ChatView extends ItemView {
       info.createDiv({ cls: 'ai-session-item-title', text: session.title });
       info.createDiv({
         cls: 'ai-session-item-meta',
-        text: `${session.messages.length} msgs · ${this.formatTime(session.updatedAt)}`,
+        text: `${session.messages.filter(m => m.role !== 'tool').length} msgs · ${this.formatTime(session.updatedAt)}`,
       });
 
       info.addEventListener('click', () => this.switchSession(session.id));
@@ -229,6 +281,9 @@ export class ChatView extends ItemView {
 
     const headerActions = header.createDiv({ cls: 'ai-chat-header-actions' });
 
+    this.usageEl = headerActions.createSpan({ cls: 'ai-chat-usage' });
+    this.renderUsage();
+
     const newChatBtn = headerActions.createEl('button', {
       cls: 'ai-chat-icon-btn',
       attr: { 'aria-label': 'New chat' },
@@ -236,6 +291,22 @@ export class ChatView extends ItemView {
     setIcon(newChatBtn, 'plus');
     newChatBtn.addEventListener('click', () => this.newSession());
 
+    if (this.plugin.settings.agentTracing) {
+      const traceBtn = headerActions.createEl('button', {
+        cls: 'ai-chat-icon-btn',
+        attr: { 'aria-label': 'Open trace of the last turn' },
+      });
+      setIcon(traceBtn, 'activity');
+      traceBtn.addEventListener('click', () => {
+        const trace = this.plugin.agentTraces.find(t => t.sessionId === this.currentSession?.id);
+        if (trace) {
+          this.plugin.openAgentTrace(trace);
+        } else {
+          new Notice('No trace recorded for this chat yet');
+        }
+      });
+    }
+
     const clearBtn = headerActions.createEl('button', {
       cls: 'ai-chat-icon-btn',
       attr: { 'aria-label': 'Clear chat' },
@@ -269,6 +340,8 @@ export class ChatView extends ItemView {
 
     // Input
     const inputArea = this.chatPanelEl.createDiv({ cls: 'ai-chat-input-area' });
+    this.attachmentsEl = inputArea.createDiv({ cls: 'ai-chat-attachments' });
+    this.renderPendingImages();
     this.inputEl = inputArea.createEl('textarea', {
       cls: 'ai-chat-input',
       attr: { placeholder: 'Ask a question or give a task...', rows: '3' },
@@ -279,8 +352,17 @@ export class ChatView extends ItemView {
         this.sendCurrentMessage();
       }
     });
+    this.inputEl.addEventListener('paste', (e) => this.handlePaste(e));
 
     const inputActions = inputArea.createDiv({ cls: 'ai-chat-input-actions' });
+    const attachBtn = inputActions.createEl('button', {
+      cls: 'ai-chat-icon-btn',
+      attr: { 'aria-label': 'Attach image' },
+    });
+    setIcon(attachBtn, 'image-plus');
+    attachBtn.addEventListener('click', () => {
+      new ImagePickerModal(this.app, (file) => this.addPendingImage(file)).open();
+    });
     this.sendBtn = inputActions.createEl('button', { cls: 'ai-chat-send-btn' });
     setIcon(this.sendBtn, 'send');
     this.sendBtn.addEventListener('click', () => this.sendCurrentMessage());
@@ -296,12 +378,50 @@ export class ChatView extends ItemView {
     }
 
     this.messagesContainer.empty();
+    const summarizedCount = this.currentSession.summarizedCount || 0;
+    const toolResults = new Map<string, string>();
     for (const msg of this.currentSession.messages) {
-      this.appendMessageEl(msg.role, msg.content);
+      if (msg.role === 'tool' && msg.tool_call_id) toolResults.set(msg.tool_call_id, msg.content);
     }
+
+    this.currentSession.messages.forEach((msg, i) => {
+      if (i === summarizedCount && summarizedCount > 0) {
+        this.messagesContainer.createDiv({
+          cls: 'ai-chat-compact-divider',
+          text: 'Earlier messages are summarized for the model',
+        });
+      }
+      // Tool results are shown inside the card of the call they answer
+      if (msg.role === 'tool') return;
+
+      if (msg.tool_calls?.length) {
+        if (msg.content) this.appendMessageEl('assistant', msg.content);
+        for (const toolCall of msg.tool_calls) {
+          this.renderToolCard(toolCall, toolResults.get(toolCall.id));
+        }
+        return;
+      }
+
+      const msgEl = this.appendMessageEl(msg.role, msg.content);
+      if (msg.images?.length) this.renderMessageImages(msgEl, msg.images);
+      if (msg.turnId) this.renderTurnChanges(msgEl, msg.turnId);
+    });
     this.scrollToBottom();
   }
 
+  /**
+   * Show accumulated chat token usage and estimated cost in the header
+   */
+  private renderUsage() {
+    const totals = this.plugin.usageLedger.getTotals(this.plugin.settings.modelPrices || [], 'chat');
+    const tokens = totals.promptTokens + totals.completionTokens;
+    this.usageEl.setText(tokens > 0 ? `${formatTokens(tokens)} · ${formatCost(totals.cost)}` : '');
+    this.usageEl.setAttr(
+      'aria-label',
+      `Chat usage: ${totals.requests} requests, ${totals.promptTokens} prompt + ${totals.completionTokens} completion tokens`
+    );
+  }
+
   /* ========== Session Management ========== */
 
   private async newSession() {
@@ -356,6 +476,8 @@ export class ChatView extends ItemView {
   private async clearCurrentChat() {
     if (!this.currentSession) return;
     this.currentSession.messages = [];
+    this.currentSession.summary = undefined;
+    this.currentSession.summarizedCount = undefined;
     this.currentSession.title = 'New Chat';
     await this.plugin.updateChatSession(this.currentSession);
     this.render();
@@ -422,13 +544,17 @@ export class ChatView extends ItemView {
     }
   }
 
-  private appendMessageEl(role: 'user' | 'assistant', content: string): HTMLElement {
+  /**
+   * @param before - insert ahead of this element instead of at the end
+   */
+  private appendMessageEl(role: 'user' | 'assistant', content: string, before?: HTMLElement): HTMLElement {
     const welcome = this.messagesContainer.querySelector('.ai-chat-welcome');
     if (welcome) welcome.remove();
 
     const msgEl = this.messagesContainer.createDiv({
       cls: `ai-chat-msg ai-chat-msg-${role}`,
     });
+    if (before) this.messagesContainer.insertBefore(msgEl, before);
     const avatar = msgEl.createDiv({ cls: 'ai-chat-msg-avatar' });
     setIcon(avatar, role === 'user' ? 'user' : 'bot');
 
@@ -444,29 +570,272 @@ export class ChatView extends ItemView {
     return msgEl;
   }
 
+  private renderMessageImages(msgEl: HTMLElement, paths: string[]) {
+    const bubble = msgEl.querySelector('.ai-chat-msg-bubble') as HTMLElement;
+    const gallery = bubble.createDiv({ cls: 'ai-chat-msg-images' });
+    for (const path of paths) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) {
+        gallery.createEl('img', { attr: { src: this.app.vault.getResourcePath(file), alt: path, title: path } });
+      } else {
+        gallery.createSpan({ cls: 'ai-chat-msg-image-missing', text: `[Missing image: ${path}]` });
+      }
+    }
+  }
+
+  /* ========== Image Attachments ========== */
+
+  private addPendingImage(file: TFile) {
+    if (!this.pendingImages.some(f => f.path === file.path)) {
+      this.pendingImages.push(file);
+    }
+    this.renderPendingImages();
+  }
+
+  private renderPendingImages() {
+    this.attachmentsEl.empty();
+    this.attachmentsEl.toggle(this.pendingImages.length > 0);
+    for (const file of this.pendingImages) {
+      const chip = this.attachmentsEl.createDiv({ cls: 'ai-chat-attachment' });
+      chip.createEl('img', { attr: { src: this.app.vault.getResourcePath(file) } });
+      chip.createSpan({ text: file.name });
+      const removeBtn = chip.createEl('button', { cls: 'ai-chat-icon-btn', attr: { 'aria-label': 'Remove' } });
+      setIcon(removeBtn, 'x');
+      removeBtn.addEventListener('click', () => {
+        this.pendingImages = this.pendingImages.filter(f => f !== file);
+        this.renderPendingImages();
+      });
+    }
+  }
+
+  /**
+   * Pasted screenshots are saved as vault attachments, then attached
+   */
+  private async handlePaste(e: ClipboardEvent) {
+    const items = Array.from(e.clipboardData?.items || []);
+    const images = items.filter(item => item.kind === 'file' && Object.values(IMAGE_MIME_TYPES).includes(item.type));
+    if (images.length === 0) return;
+    e.preventDefault();
+
+    for (const item of images) {
+      const blob = item.getAsFile();
+      if (!blob) continue;
+      try {
+        const ext = item.type === 'image/jpeg' ? 'jpg' : item.type.replace('image/', '');
+        const name = `Pasted image ${window.moment().format('YYYYMMDDHHmmss')}.${ext}`;
+        const path = await this.app.fileManager.getAvailablePathForAttachment(name, this.selectedFile?.path);
+        const file = await this.app.vault.createBinary(path, await blob.arrayBuffer());
+        this.addPendingImage(file);
+      } catch (err) {
+        new Notice(`Could not save pasted image: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+  }
+
+  /**
+   * Load the images of the newest user message into its context message.
+   * Older messages keep text placeholders so history stays cheap.
+   */
+  private async attachCurrentImages(session: ChatSession, contextMessages: LLMMessage[]) {
+    const lastUser = [...session.messages].reverse().find(m => m.role === 'user');
+    const lastContext = [...contextMessages].reverse().find(m => m.role === 'user');
+    if (!lastUser?.images?.length || !lastContext) return;
+
+    const parts: ImagePart[] = [];
+    for (const path of lastUser.images) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) {
+        new Notice(`Image not found: ${path}`);
+        continue;
+      }
+      try {
+        parts.push(await readImagePart(this.app.vault, file));
+      } catch (err) {
+        new Notice(err instanceof Error ? err.message : String(err));
+      }
+    }
+    lastContext.content = buildContent(lastUser.content, parts);
+  }
+
   private scrollToBottom() {
     requestAnimationFrame(() => {
       this.messagesContainer.scrollTop = this.messagesContainer.scrollHeight;
     });
   }
 
+  /**
+   * Collapsible card for one tool call; the result can be filled in later
+   * @param before - insert ahead of this element instead of at the end
+   */
+  private renderToolCard(toolCall: ToolCall, result?: string, before?: HTMLElement): HTMLElement {
+    const card = this.messagesContainer.createEl('details', { cls: 'ai-chat-tool-card' });
+    if (before) this.messagesContainer.insertBefore(card, before);
+
+    let args: Record<string, unknown> = {};
+    try {
+      args = JSON.parse(toolCall.function.arguments || '{}');
+    } catch {
+      // show the raw string below
+    }
+    const hint = Object.values(args).find((v): v is string => typeof v === 'string') || '';
+
+    const summary = card.createEl('summary');
+    summary.createSpan({ cls: 'ai-chat-tool-card-name', text: `🔧 ${toolCall.function.name}` });
+    if (hint) summary.createSpan({ cls: 'ai-chat-tool-card-hint', text: hint.split('\n')[0].slice(0, 80) });
+
+    card.createDiv({ cls: 'ai-chat-tool-card-label', text: 'Arguments' });
+    card.createEl('pre', {
+      text: Object.keys(args).length > 0 ? JSON.stringify(args, null, 2) : toolCall.function.arguments,
+    });
+    card.createDiv({ cls: 'ai-chat-tool-card-label', text: 'Result' });
+    card.createEl('pre', { cls: 'ai-chat-tool-card-result', text: result ?? 'Running…' });
+    return card;
+  }
+
+  /**
+   * Collapsible block that streams the model's reasoning above its reply.
+   * Display only: reasoning is never saved to the session.
+   */
+  private startThinkingBlock(before: HTMLElement): ThinkingBlock {
+    const block = this.messagesContainer.createEl('details', { cls: 'ai-chat-thinking' });
+    this.messagesContainer.insertBefore(block, before);
+    block.open = true;
+    const summary = block.createEl('summary', { text: 'Thinking…' });
+    const body = block.createDiv({ cls: 'ai-chat-thinking-body' });
+    const startedAt = Date.now();
+    let ended = false;
+
+    return {
+      push: (token) => {
+        body.appendText(token);
+        body.scrollTop = body.scrollHeight;
+        this.scrollToBottom();
+      },
+      end: () => {
+        if (ended) return;
+        ended = true;
+        summary.setText(`Thought for ${Math.max(1, Math.round((Date.now() - startedAt) / 1000))}s`);
+        block.open = false;
+      },
+    };
+  }
+
+  private setToolCardResult(card: HTMLElement, result: string, isError: boolean) {
+    card.querySelector('.ai-chat-tool-card-result')?.setText(result);
+    if (isError) card.addClass('is-error');
+  }
+
+  /* ========== Context Building ========== */
+
+  /**
+   * Messages sent to the model: selected document (capped), compaction summary,
+   * then the uncompacted tail of the session ending with the current user message.
+   */
+  private buildContextMessages(session: ChatSession, budget: ContextBudget): LLMMessage[] {
+    const contextMessages: LLMMessage[] = [];
+
+    if (this.selectedFile && this.selectedDocContent) {
+      const docBudget = Math.floor(availableTokens(budget) * DOC_CONTEXT_SHARE);
+      const docContent = truncateToTokens(
+        this.selectedDocContent,
+        docBudget,
+        budget.model,
+        '\n\n[... document truncated to fit the context window; use read_note with outline, section or a line range for the rest ...]'
+      );
+      contextMessages.push({
+        role: 'user',
+        content: `[Document context: "${this.selectedFile.basename}"]\n\n---\n${docContent}\n---\n\nPlease remember this document. I'll ask questions next.`,
+      });
+      contextMessages.push({
+        role: 'assistant',
+        content: 'I\'ve read the document. What would you like to know?',
+      });
+    }
+
+    if (session.summary) {
+      contextMessages.push({
+        role: 'user',
+        content: `[Summary of our earlier conversation]\n\n${session.summary}`,
+      });
+      contextMessages.push({
+        role: 'assistant',
+        content: 'Understood, I\'ll continue from there.',
+      });
+    }
+
+    for (let i = session.summarizedCount || 0; i < session.messages.length; i++) {
+      const msg = session.messages[i];
+      const imageNotes = (msg.images || []).map(path => `[Image: ${path}]`);
+      contextMessages.push({
+        role: msg.role,
+        content: [msg.content, ...imageNotes].filter(Boolean).join('\n\n'),
+        ...(msg.tool_calls ? { tool_calls: msg.tool_calls } : {}),
+        ...(msg.tool_call_id ? { tool_call_id: msg.tool_call_id } : {}),
+      });
+    }
+
+    return contextMessages;
+  }
+
+  /**
+   * Fold older turns into the session summary when the prompt nears the budget
+   * @param tools - the agent's tool definitions, which are sent with every request
+   */
+  private async compactSessionIfNeeded(
+    session: ChatSession,
+    llmClient: LLMClient,
+    budget: ContextBudget,
+    systemPrompt: string,
+    tools: ToolDefinition[],
+    bubble: HTMLElement
+  ) {
+    const estimate = estimateTokens(systemPrompt, budget.model)
+      + estimateMessagesTokens(this.buildContextMessages(session, budget), budget.model);
+    if (estimate <= availableTokens(budget, tools) * COMPACT_THRESHOLD) return;
+
+    const start = session.summarizedCount || 0;
+    let end = session.messages.length - KEEP_RECENT_MESSAGES;
+    // Never split a tool call from its results
+    while (end > start && end < session.messages.length && session.messages[end].role === 'tool') end++;
+    if (end <= start || end >= session.messages.length) return;
+
+    bubble.empty();
+    bubble.createDiv({ cls: 'ai-chat-typing', text: 'Compacting earlier messages' });
+
+    try {
+      session.summary = await summarizeMessages(
+        llmClient,
+        session.messages.slice(start, end),
+        session.summary
+      );
+      session.summarizedCount = end;
+      await this.plugin.updateChatSession(session);
+    } catch (e) {
+      // Not fatal: the agent loop still trims tool results to fit
+      console.warn('Obsidian Palace: history compaction failed:', e);
+    }
+
+    bubble.empty();
+    bubble.createDiv({ cls: 'ai-chat-typing', text: 'Thinking' });
+  }
+
   /* ========== Send / Agent Response ========== */
 
   private async sendCurrentMessage() {
     const text = this.inputEl.value.trim();
-    if (!text || this.isLoading) return;
+    const images = this.pendingImages.map(f => f.path);
+    if ((!text && images.length === 0) || this.isLoading) return;
 
-    const { baseUrl, apiKey, modelName } = this.plugin.settings;
-    if (!baseUrl || !apiKey || !modelName) {
-      new Notice('Please configure API settings first');
-      return;
-    }
+    if (!this.plugin.validateLLMSettings('chat')) return;
 
     const session = this.ensureSession();
 
     this.inputEl.value = '';
-    session.messages.push({ role: 'user', content: text });
-    this.appendMessageEl('user', text);
+    this.pendingImages = [];
+    this.renderPendingImages();
+    session.messages.push({ role: 'user', content: text, ...(images.length > 0 ? { images } : {}) });
+    const userEl = this.appendMessageEl('user', text);
+    if (images.length > 0) this.renderMessageImages(userEl, images);
 
     // Save immediately (title auto-updates)
     await this.plugin.updateChatSession(session);
@@ -489,10 +858,15 @@ export class ChatView extends ItemView {
     bubble.createDiv({ cls: 'ai-chat-typing', text: 'Thinking' });
 
     const session = this.currentSession!;
-    const { baseUrl, apiKey, modelName, agentEnabled, agentMaxIterations } = this.plugin.settings;
+    const { agentEnabled, agentMaxIterations } = this.plugin.settings;
+    const turnId = Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+    const turnMessages: ChatMessage[] = [];
+    // Streamed answer text since the last tool call, kept if the turn is stopped
+    let fullText = '';
+    let trace: TraceRecorder | undefined;
 
     try {
-      const llmClient = new LLMClient({ baseUrl, apiKey, modelName });
+      const llmClient = this.plugin.createLLMClient('chat');
 
       // Build system prompt
       let systemPrompt = AGENT_SYSTEM_PROMPT;
@@ -505,45 +879,36 @@ export class ChatView extends ItemView {
         systemPrompt += `\n\n## Active Skill: ${matchedSkill.metadata.name}\n\n${matchedSkill.instructions}`;
       }
 
-      // Build context messages
-      const contextMessages: LLMMessage[] = [];
+      const budget = createContextBudget(resolveModelRoute(this.plugin.settings, 'chat').modelName, {
+        contextWindow: this.plugin.settings.contextWindow,
+        maxToolResultTokens: this.plugin.settings.maxToolResultTokens,
+      });
 
-      if (this.selectedFile && this.selectedDocContent) {
-        contextMessages.push({
-          role: 'user',
-          content: `[Document context: "${this.selectedFile.basename}"]\n\n---\n${this.selectedDocContent}\n---\n\nPlease remember this document. I'll ask questions next.`,
-        });
-        contextMessages.push({
-          role: 'assistant',
-          content: 'I\'ve read the document. What would you like to know?',
-        });
-      }
+      const toolRegistry = agentEnabled ? this.plugin.createToolRegistry({ sessionId: session.id, turnId }) : null;
 
-      // Full chat history from session
-      for (let i = 0; i < session.messages.length - 1; i++) {
-        contextMessages.push({
-          role: session.messages[i].role,
-          content: session.messages[i].content,
-        });
+      if (this.plugin.settings.autoCompact) {
+        await this.compactSessionIfNeeded(session, llmClient, budget, systemPrompt, toolRegistry?.toDefinitions() ?? [], bubble);
       }
-      contextMessages.push({ role: 'user', content: userMessage });
+
+      const contextMessages = this.buildContextMessages(session, budget);
+      await this.attachCurrentImages(session, contextMessages);
 
       let result: string;
 
-      if (agentEnabled) {
-        const toolRegistry = new ToolRegistry();
-        toolRegistry.register(createSearchVaultTool(this.app));
-        toolRegistry.register(createReadNoteTool(this.app));
-        toolRegistry.register(createWriteNoteTool(this.app));
-        toolRegistry.register(createListNotesTool(this.app));
-        toolRegistry.register(createExecuteCodeTool(this.plugin.sandboxProvider));
-
-        // Register Vault QA tools if available
-        if (this.plugin.settings.vaultQAEnabled && this.plugin.getVaultQATools) {
-          const tools = this.plugin.getVaultQATools();
-          for (const tool of tools) {
-            toolRegistry.register(tool);
-          }
+      if (toolRegistry) {
+        this.abortController = new AbortController();
+        const signal = this.abortController.signal;
+
+        toolRegistry.setApprovalHandler((request) => this.requestToolApproval(request, signal));
+
+        if (this.plugin.settings.agentTracing) {
+          trace = new TraceRecorder({
+            id: turnId,
+            sessionId: session.id,
+            sessionTitle: session.title,
+            model: budget.model,
+            skill: matchedSkill?.metadata.name,
+          });
         }
 
         const agent = new AgentRunner({
@@ -552,21 +917,34 @@ export class ChatView extends ItemView {
           maxIterations: agentMaxIterations,
           systemPrompt,
           temperature: 0.7,
+          contextBudget: budget,
+          maxParallelTools: this.plugin.settings.agentParallelTools,
+          trace,
         });
 
-        this.abortController = new AbortController();
-        let fullText = '';
+        const toolCards = new Map<string, HTMLElement>();
+        let reasoningBlock: ThinkingBlock | null = null;
+        const endReasoning = () => {
+          reasoningBlock?.end();
+          reasoningBlock = null;
+        };
 
         result = await agent.run(
           contextMessages,
           {
+            onReasoning: (token) => {
+              if (!reasoningBlock) reasoningBlock = this.startThinkingBlock(msgEl);
+              reasoningBlock.push(token);
+            },
             onToken: (token) => {
+              endReasoning();
               fullText += token;
               bubble.empty();
               MarkdownRenderer.render(this.app, fullText, bubble, '', this);
               this.scrollToBottom();
             },
             onThinking: (toolName) => {
+              endReasoning();
               bubble.empty();
               const thinking = bubble.createDiv({ cls: 'ai-chat-tool-status' });
               thinking.createSpan({ text: `🔧 Using: ${toolName}` });
@@ -576,18 +954,50 @@ export class ChatView extends ItemView {
               }
               this.scrollToBottom();
             },
-            onToolResult: () => {},
+            onToolResult: (_toolName, result, { toolCallId, isError }) => {
+              const card = toolCards.get(toolCallId);
+              if (card) this.setToolCardResult(card, result, isError);
+            },
+            onMessage: (message) => {
+              // Image data is not persisted; the model can call read_image again
+              const content = contentToText(message.content);
+              turnMessages.push({
+                role: message.role as 'assistant' | 'tool',
+                content,
+                ...(message.tool_calls ? { tool_calls: message.tool_calls } : {}),
+                ...(message.tool_call_id ? { tool_call_id: message.tool_call_id } : {}),
+              });
+
+              if (message.tool_calls) {
+                // Text streamed before the tool calls moves out of the live bubble
+                if (content) this.appendMessageEl('assistant', content, msgEl);
+                fullText = '';
+                for (const toolCall of message.tool_calls) {
+                  toolCards.set(toolCall.id, this.renderToolCard(toolCall, undefined, msgEl));
+                }
+              }
+            },
           },
-          this.abortController.signal
+          signal
         );
+        endReasoning();
       } else {
         this.abortController = new AbortController();
-        let fullText = '';
+        let reasoningBlock: ThinkingBlock | null = null;
+        const endReasoning = () => {
+          reasoningBlock?.end();
+          reasoningBlock = null;
+        };
 
         const response = await llmClient.stream(
           [{ role: 'system', content: systemPrompt }, ...contextMessages],
           (delta) => {
+            if (delta.reasoning) {
+              if (!reasoningBlock) reasoningBlock = this.startThinkingBlock(msgEl);
+              reasoningBlock.push(delta.reasoning);
+            }
             if (delta.content) {
+              endReasoning();
               fullText += delta.content;
               bubble.empty();
               MarkdownRenderer.render(this.app, fullText, bubble, '', this);
@@ -596,18 +1006,28 @@ export class ChatView extends ItemView {
           },
           { temperature: 0.7, signal: this.abortController.signal }
         );
+        endReasoning();
         result = response.content || fullText;
       }
 
-      // Save assistant response to session
-      session.messages.push({ role: 'assistant', content: result });
+      // Save tool activity and the assistant response to session
+      const hasChanges = this.plugin.changeJournal.getTurn(turnId).length > 0;
+      session.messages.push(...turnMessages);
+      session.messages.push({ role: 'assistant', content: result, ...(hasChanges ? { turnId } : {}) });
       await this.plugin.updateChatSession(session);
+      if (trace) this.plugin.addAgentTrace(trace.finish());
 
       bubble.empty();
       await MarkdownRenderer.render(this.app, result, bubble, '', this);
+      if (hasChanges) this.renderTurnChanges(msgEl, turnId);
       this.scrollToBottom();
+      this.renderUsage();
     } catch (error) {
-      if ((error as Error).name === 'AbortError') return;
+      if (trace) this.plugin.addAgentTrace(trace.finish(error));
+      if ((error as Error).name === 'AbortError') {
+        await this.saveStoppedTurn(session, msgEl, turnId, turnMessages, fullText);
+        return;
+      }
       const msg = error instanceof Error ? error.message : String(error);
       bubble.empty();
       bubble.createDiv({ cls: 'ai-chat-error', text: `Error: ${msg}` });
@@ -618,4 +1038,172 @@ export class ChatView extends ItemView {
       this.abortController = null;
     }
   }
+
+  /**
+   * Keep what a stopped turn did, so its vault changes stay linked to a message and can be reverted
+   */
+  private async saveStoppedTurn(
+    session: ChatSession,
+    msgEl: HTMLElement,
+    turnId: string,
+    turnMessages: ChatMessage[],
+    partialText: string
+  ) {
+    const hasChanges = this.plugin.changeJournal.getTurn(turnId).length > 0;
+    if (turnMessages.length === 0 && !partialText && !hasChanges) return;
+
+    // Every tool call needs a result, or providers reject the history on the next turn
+    const answered = new Set(turnMessages.map(m => m.tool_call_id).filter(Boolean));
+    const unanswered = turnMessages.flatMap(m => m.tool_calls || []).filter(tc => !answered.has(tc.id));
+    for (const toolCall of unanswered) {
+      turnMessages.push({
+        role: 'tool',
+        content: JSON.stringify({ error: 'Stopped by the user before the result was returned' }),
+        tool_call_id: toolCall.id,
+      });
+    }
+
+    session.messages.push(...turnMessages);
+    session.messages.push({
+      role: 'assistant',
+      content: partialText ? `${partialText}\n\n*(stopped)*` : '*(stopped)*',
+      ...(hasChanges ? { turnId } : {}),
+    });
+    await this.plugin.updateChatSession(session);
+    if (hasChanges) this.renderTurnChanges(msgEl, turnId);
+  }
+
+  /**
+   * List the vault changes an agent turn made, with per-change and whole-turn undo
+   */
+  private renderTurnChanges(msgEl: HTMLElement, turnId: string) {
+    const entries = this.plugin.changeJournal.getTurn(turnId);
+    if (entries.length === 0) return;
+
+    let panel = msgEl.nextElementSibling as HTMLElement | null;
+    if (panel?.hasClass('ai-chat-changes')) {
+      panel.empty();
+    } else {
+      panel = createDiv({ cls: 'ai-chat-changes' });
+      msgEl.insertAdjacentElement('afterend', panel);
+    }
+
+    const rerender = () => this.renderTurnChanges(msgEl, turnId);
+    const pending = entries.filter(e => !e.reverted);
+
+    const header = panel.createDiv({ cls: 'ai-chat-changes-header' });
+    header.createSpan({
+      text: pending.length > 0
+        ? `✏️ ${entries.length} vault change(s)`
+        : `↩️ ${entries.length} vault change(s) reverted`,
+    });
+    if (pending.length > 0) {
+      const undoAll = header.createEl('button', { text: 'Undo all' });
+      undoAll.addEventListener('click', async () => {
+        if (await this.plugin.revertAgentChanges(entries)) rerender();
+      });
+    }
+
+    for (const entry of entries) {
+      const row = panel.createDiv({ cls: 'ai-chat-changes-item' });
+      if (entry.reverted) row.addClass('is-reverted');
+      row.createSpan({ cls: 'ai-chat-changes-action', text: CHANGE_ACTION_LABELS[entry.action] });
+      const link = row.createEl('a', {
+        text: entry.action === 'move' ? `${entry.from} → ${entry.path}` : entry.path,
+        cls: 'ai-chat-changes-path',
+      });
+      link.addEventListener('click', () => {
+        // Trashed files would be recreated as empty notes by openLinkText
+        if (this.app.vault.getAbstractFileByPath(entry.path)) this.app.workspace.openLinkText(entry.path, '', false);
+      });
+
+      if (!entry.reverted) {
+        const revertBtn = row.createEl('button', { text: 'Revert' });
+        revertBtn.addEventListener('click', async () => {
+          if (await this.plugin.revertAgentChanges([entry])) rerender();
+        });
+      }
+    }
+  }
+
+  /* ========== Tool Approval ========== */
+
+  /**
+   * Show an approval card for a tool call and wait for the user's decision.
+   * Aborting the request counts as a rejection.
+   */
+  private requestToolApproval(
+    request: ToolApprovalRequest,
+    signal: AbortSignal
+  ): Promise<ToolApprovalDecision> {
+    return new Promise((resolve) => {
+      // Stopped while the preview was being built: the abort event has already fired
+      if (signal.aborted) {
+        resolve({ approved: false });
+        return;
+      }
+
+      const { toolName, args, preview } = request;
+      const card = this.messagesContainer.createDiv({ cls: 'ai-chat-approval' });
+
+      const header = card.createDiv({ cls: 'ai-chat-approval-header' });
+      header.createSpan({ cls: 'ai-chat-approval-tool', text: toolName });
+      header.createSpan({ text: preview?.title || 'wants to run' });
+
+      const body = card.createDiv({ cls: 'ai-chat-approval-body' });
+      if (preview?.kind === 'diff') {
+        const diffEl = body.createEl('pre', { cls: 'ai-chat-approval-diff' });
+        for (const line of diffLines(preview.before || '', preview.after)) {
+          const prefix = line.type === 'add' ? '+ ' : line.type === 'remove' ? '- ' : '  ';
+          diffEl.createDiv({ cls: `ai-chat-diff-${line.type}`, text: prefix + line.text });
+        }
+      } else if (preview?.kind === 'code') {
+        body.createEl('pre', { cls: 'ai-chat-approval-code' })
+          .createEl('code', { text: preview.after, cls: `language-${preview.language || 'text'}` });
+      } else {
+        body.createEl('pre', { cls: 'ai-chat-approval-code', text: JSON.stringify(args, null, 2) });
+      }
+
+      const editableArg = preview?.editableArg;
+      let editor: HTMLTextAreaElement | null = null;
+
+      const actions = card.createDiv({ cls: 'ai-chat-approval-actions' });
+      const approveBtn = actions.createEl('button', { text: 'Approve', cls: 'mod-cta' });
+      const editBtn = editableArg ? actions.createEl('button', { text: 'Edit' }) : null;
+      const rejectBtn = actions.createEl('button', { text: 'Reject', cls: 'mod-warning' });
+
+      const finish = (decision: ToolApprovalDecision, label: string) => {
+        signal.removeEventListener('abort', onAbort);
+        actions.remove();
+        editor?.setAttr('readonly', 'true');
+        card.addClass(decision.approved ? 'is-approved' : 'is-rejected');
+        card.createDiv({ cls: 'ai-chat-approval-status', text: label });
+        resolve(decision);
+      };
+      const onAbort = () => finish({ approved: false }, 'Cancelled');
+      signal.addEventListener('abort', onAbort);
+
+      editBtn?.addEventListener('click', () => {
+        if (editor || !editableArg) return;
+        body.empty();
+        editor = body.createEl('textarea', { cls: 'ai-chat-approval-editor' });
+        editor.value = String(args[editableArg] ?? '');
+        editor.rows = Math.min(20, Math.max(6, editor.value.split('\n').length));
+        editBtn.remove();
+        approveBtn.setText('Approve edited');
+        editor.focus();
+      });
+
+      approveBtn.addEventListener('click', () => {
+        if (editor && editableArg) {
+          finish({ approved: true, args: { ...args, [editableArg]: editor.value } }, 'Approved with edits');
+        } else {
+          finish({ approved: true }, 'Approved');
+        }
+      });
+      rejectBtn.addEventListener('click', () => finish({ approved: false }, 'Rejected'));
+
+      this.scrollToBottom();
+    });
+  }
 }
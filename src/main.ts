@@ -9,7 +9,7 @@
  * - Cloud sandbox (E2B) for code execution
  */
 
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, TFile } from 'obsidian';
+import { App, Editor, FuzzySuggestModal, MarkdownView, Modal, Notice, Plugin, TFile, debounce } from 'obsidian';
 import { PalaceSettings, PalaceSettingTab, DEFAULT_SETTINGS } from './settings';
 import { Translator, TranslatorConfig } from './translator';
 import { ChatView, CHAT_VIEW_TYPE } from './chatView';
@@ -19,7 +19,53 @@ import { KnowledgeGraph } from './palace/knowledgeGraph';
 import { GraphExtractor } from './palace/graphExtractor';
 import { SkillRegistry } from './skills/skillRegistry';
 import { E2BProvider } from './sandbox/e2bProvider';
-import type { PalaceData, SandboxProvider, ChatSession, AgentTool } from './shared/types';
+import { resolveModelRoute } from './shared/modelRouting';
+import type { LLMFeature } from './shared/modelRouting';
+import { UsageLedger } from './shared/usageLedger';
+import { FixtureStore, parseFixtureFile } from './shared/providers';
+import { ResponseCache } from './shared/responseCache';
+import { ToolRegistry } from './agent/toolRegistry';
+import { ChangeJournal, describeChange, findConflicts, revertChanges } from './agent/changeJournal';
+import { formatTraceMarkdown } from './agent/traceRecorder';
+import { createSearchVaultTool } from './agent/tools/searchVault';
+import { createReadNoteTool } from './agent/tools/readNote';
+import { createReadImageTool } from './agent/tools/readImage';
+import { createWriteNoteTool } from './agent/tools/writeNote';
+import { createEditNoteTool } from './agent/tools/editNote';
+import { createUpdateFrontmatterTool } from './agent/tools/updateFrontmatter';
+import {
+  createCreateFolderTool,
+  createMoveFileTool,
+  createRenameFileTool,
+  createTrashFileTool,
+} from './agent/tools/vaultFiles';
+import {
+  createKGConnectionsTool,
+  createKGFindNodesTool,
+  createKGFindPathTool,
+  createKGSubgraphTool,
+} from './agent/tools/knowledgeGraph';
+import { createFlashcardsTool } from './agent/tools/createFlashcards';
+import { createExportGraphCanvasTool, createWriteCanvasTool } from './agent/tools/canvas';
+import {
+  createCreateDailyNoteTool,
+  createGetDailyNoteTool,
+  createListTemplatesTool,
+  createNoteFromTemplateTool,
+} from './agent/tools/dailyNotes';
+import {
+  createBacklinksTool,
+  createLinkNeighborhoodTool,
+  createOutgoingLinksTool,
+  createUnresolvedLinksTool,
+} from './agent/tools/linkGraph';
+import { createListNotesTool } from './agent/tools/listNotes';
+import { createQueryNotesTool } from './agent/tools/queryNotes';
+import { createExecuteCodeTool } from './agent/tools/executeCode';
+import type {
+  PalaceData, SandboxProvider, ChatSession, AgentTool, UsageLedgerData, ChangeJournalData, JournalEntry, VaultChange,
+  AgentTrace,
+} from './shared/types';
 
 // Vault QA imports (text-based search only)
 import {
@@ -29,6 +75,11 @@ import {
 
 const PALACE_DATA_KEY = 'palace-data';
 const CHAT_SESSIONS_KEY = 'chat-sessions';
+const USAGE_LEDGER_KEY = 'usage-ledger';
+const CHANGE_JOURNAL_KEY = 'change-journal';
+
+/** Agent traces are kept in memory only; older ones are dropped */
+const MAX_AGENT_TRACES = 20;
 
 export default class ObsidianPalacePlugin extends Plugin {
   settings: PalaceSettings;
@@ -36,6 +87,11 @@ export default class ObsidianPalacePlugin extends Plugin {
   palaceData: PalaceData | null = null;
   chatSessions: ChatSession[] = [];
   skillRegistry: SkillRegistry;
+  usageLedger: UsageLedger;
+  changeJournal: ChangeJournal;
+  fixtureStore: FixtureStore = new FixtureStore();
+  agentTraces: AgentTrace[] = [];
+  responseCache: ResponseCache;
   sandboxProvider: SandboxProvider | null = null;
 
   // Vault QA components (text-based search only)
@@ -45,6 +101,9 @@ export default class ObsidianPalacePlugin extends Plugin {
   isProcessing = false;
   private abortController: AbortController | null = null;
 
+  // Serializes data.json writes (see updateStore)
+  private storeQueue: Promise<void> = Promise.resolve();
+
   // Callback for settings UI
   getVaultQATools?: () => AgentTool[];
   toggleVaultQA?: (enabled: boolean) => Promise<void>;
@@ -71,6 +130,20 @@ export default class ObsidianPalacePlugin extends Plugin {
     this.chatSessions = (store[CHAT_SESSIONS_KEY] as ChatSession[] | undefined) || [];
     this.chatSessions.sort((a, b) => b.updatedAt - a.updatedAt);
 
+    // Init usage ledger (saved lazily: every LLM call records into it)
+    const saveUsage = debounce(() => this.saveUsageLedger(), 5000, true);
+    this.usageLedger = new UsageLedger(store[USAGE_LEDGER_KEY] as UsageLedgerData | undefined, saveUsage);
+
+    // Init response cache (entry files under the plugin folder)
+    this.responseCache = new ResponseCache(this.app.vault.adapter, {
+      dir: `${this.manifest.dir}/cache`,
+      maxBytes: (this.settings.responseCacheMaxMB || 50) * 1024 * 1024,
+    });
+
+    // Init change journal (agent edits, for undo)
+    const saveJournal = debounce(() => this.saveChangeJournal(), 2000, true);
+    this.changeJournal = new ChangeJournal(store[CHANGE_JOURNAL_KEY] as ChangeJournalData | undefined, saveJournal);
+
     // Init skill registry
     this.skillRegistry = new SkillRegistry();
     this.loadSkills();
@@ -78,6 +151,9 @@ export default class ObsidianPalacePlugin extends Plugin {
     // Init sandbox if configured
     this.initSandbox();
 
+    // Load scripted provider fixtures (offline demos / tests)
+    await this.loadFixtures();
+
     // Init Vault QA if enabled
     if (this.settings.vaultQAEnabled) {
       console.log('Obsidian Palace: Vault QA is enabled, initializing...');
@@ -164,6 +240,49 @@ export default class ObsidianPalacePlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: 'reload-llm-fixtures',
+      name: 'Reload Scripted LLM Fixtures',
+      callback: async () => {
+        if (await this.loadFixtures()) {
+          new Notice(`Loaded ${this.fixtureStore.size} fixture(s)`);
+        }
+      },
+    });
+
+    this.addCommand({
+      id: 'open-agent-trace',
+      name: 'Open Agent Trace...',
+      callback: () => {
+        if (this.agentTraces.length === 0) {
+          new Notice(this.settings.agentTracing
+            ? 'No agent traces recorded yet'
+            : 'Agent tracing is off. Enable it in settings under Agent.');
+          return;
+        }
+        new AgentTraceModal(this.app, this.agentTraces, (trace) => this.openAgentTrace(trace)).open();
+      },
+    });
+
+    this.addCommand({
+      id: 'undo-last-agent-turn',
+      name: 'Undo Last Agent Turn',
+      callback: () => this.undoLastAgentTurn(),
+    });
+
+    this.addCommand({
+      id: 'revert-agent-change',
+      name: 'Revert an Agent Change...',
+      callback: () => {
+        const entries = this.changeJournal.getEntries().filter(e => !e.reverted);
+        if (entries.length === 0) {
+          new Notice('No agent changes to revert');
+          return;
+        }
+        new JournalEntryModal(this.app, entries, (entry) => this.revertAgentChanges([entry])).open();
+      },
+    });
+
     // Context menus
     this.registerEvent(
       this.app.workspace.on('file-menu', (menu, file) => {
@@ -201,6 +320,10 @@ export default class ObsidianPalacePlugin extends Plugin {
   }
 
   async onunload() {
+    // Flush pending usage records and journal entries
+    await this.saveUsageLedger();
+    await this.saveChangeJournal();
+
     // Clean up sandbox
     if (this.sandboxProvider) {
       await this.sandboxProvider.destroy();
@@ -216,7 +339,9 @@ export default class ObsidianPalacePlugin extends Plugin {
    * {
    *   settings: PalaceSettings,
    *   "palace-data": PalaceData,
-   *   "chat-sessions": ChatSession[]
+   *   "chat-sessions": ChatSession[],
+   *   "usage-ledger": UsageLedgerData,
+   *   "change-journal": ChangeJournalData
    * }
    */
 
@@ -224,8 +349,20 @@ export default class ObsidianPalacePlugin extends Plugin {
     return (await this.loadData()) || {};
   }
 
-  private async writeStore(store: Record<string, unknown>) {
-    await this.saveData(store);
+  /**
+   * Read-modify-write of data.json. Writes run one at a time, so concurrent
+   * savers (usage during batch extraction, journal, sessions) never overwrite
+   * each other's keys with a stale copy of the store.
+   */
+  private updateStore(mutate: (store: Record<string, unknown>) => void): Promise<void> {
+    const run = this.storeQueue.then(async () => {
+      const store = await this.readStore();
+      mutate(store);
+      await this.saveData(store);
+    });
+    // A failed write must not block the ones queued after it
+    this.storeQueue = run.catch(() => {});
+    return run;
   }
 
   async loadSettings() {
@@ -236,9 +373,9 @@ export default class ObsidianPalacePlugin extends Plugin {
   }
 
   async saveSettings() {
-    const store = await this.readStore();
-    store.settings = this.settings;
-    await this.writeStore(store);
+    await this.updateStore(store => {
+      store.settings = this.settings;
+    });
   }
 
   async loadPalaceData() {
@@ -269,9 +406,10 @@ export default class ObsidianPalacePlugin extends Plugin {
   async savePalaceData() {
     if (!this.palaceData) return;
     this.palaceData.graph = this.knowledgeGraph.getData();
-    const store = await this.readStore();
-    store[PALACE_DATA_KEY] = this.palaceData;
-    await this.writeStore(store);
+    const palaceData = this.palaceData;
+    await this.updateStore(store => {
+      store[PALACE_DATA_KEY] = palaceData;
+    });
   }
 
   async loadChatSessions() {
@@ -282,9 +420,21 @@ export default class ObsidianPalacePlugin extends Plugin {
   }
 
   async saveChatSessions() {
-    const store = await this.readStore();
-    store[CHAT_SESSIONS_KEY] = this.chatSessions;
-    await this.writeStore(store);
+    await this.updateStore(store => {
+      store[CHAT_SESSIONS_KEY] = this.chatSessions;
+    });
+  }
+
+  async saveUsageLedger() {
+    await this.updateStore(store => {
+      store[USAGE_LEDGER_KEY] = this.usageLedger.getData();
+    });
+  }
+
+  async saveChangeJournal() {
+    await this.updateStore(store => {
+      store[CHANGE_JOURNAL_KEY] = this.changeJournal.getData();
+    });
   }
 
   createChatSession(title?: string): ChatSession {
@@ -304,7 +454,7 @@ export default class ObsidianPalacePlugin extends Plugin {
     // Auto-title from first user message if still default
     if (session.title === 'New Chat' && session.messages.length > 0) {
       const firstUserMsg = session.messages.find(m => m.role === 'user');
-      if (firstUserMsg) {
+      if (firstUserMsg?.content) {
         session.title = firstUserMsg.content.slice(0, 50) + (firstUserMsg.content.length > 50 ? '...' : '');
       }
     }
@@ -343,46 +493,175 @@ export default class ObsidianPalacePlugin extends Plugin {
     }
   }
 
+  /* ---- Scripted Provider Fixtures ---- */
+
+  /**
+   * (Re)load the fixture file and rewind replay. A missing file yields an
+   * empty store, so recording can create it. Returns false on a bad file.
+   */
+  async loadFixtures(): Promise<boolean> {
+    const path = this.settings.fixturePath;
+    const saveFixtures = debounce(() => this.saveFixtures(), 2000, true);
+    try {
+      const exists = path && await this.app.vault.adapter.exists(path);
+      const file = exists ? parseFixtureFile(await this.app.vault.adapter.read(path)) : undefined;
+      this.fixtureStore = new FixtureStore(file, saveFixtures);
+      return true;
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      new Notice(`Failed to load LLM fixtures from ${path}: ${msg}`);
+      this.fixtureStore = new FixtureStore(undefined, saveFixtures);
+      return false;
+    }
+  }
+
+  async saveFixtures() {
+    if (!this.settings.fixturePath) return;
+    await this.app.vault.adapter.write(
+      this.settings.fixturePath,
+      JSON.stringify(this.fixtureStore.toJSON(), null, 2)
+    );
+  }
+
   /* ---- Knowledge Extraction ---- */
 
-  private validateLLMSettings(): boolean {
-    if (!this.settings.baseUrl) {
-      new Notice('Please configure API Base URL in settings');
+  validateLLMSettings(feature: LLMFeature = 'chat'): boolean {
+    const route = resolveModelRoute(this.settings, feature);
+    const where = route.profileName === 'Default' ? 'settings' : `profile "${route.profileName}"`;
+    if (route.provider === 'scripted') {
+      if (this.fixtureStore.size === 0) {
+        new Notice(`No LLM fixtures loaded from ${this.settings.fixturePath || '(no file set)'}`);
+        return false;
+      }
+      return true;
+    }
+    if (!route.baseUrl) {
+      new Notice(`Please configure API Base URL in ${where}`);
       return false;
     }
-    if (!this.settings.apiKey) {
-      new Notice('Please configure API Key in settings');
+    if (!route.apiKey) {
+      new Notice(`Please configure API Key in ${where}`);
       return false;
     }
-    if (!this.settings.modelName) {
-      new Notice('Please configure Model Name in settings');
+    if (!route.modelName) {
+      new Notice(`Please configure Model Name in ${where}`);
       return false;
     }
     return true;
   }
 
-  private createLLMClient(): LLMClient {
+  /**
+   * Create a client for a feature, following the model routing table
+   */
+  createLLMClient(feature: LLMFeature = 'chat'): LLMClient {
+    const route = resolveModelRoute(this.settings, feature);
     return new LLMClient({
-      baseUrl: this.settings.baseUrl,
-      apiKey: this.settings.apiKey,
-      modelName: this.settings.modelName,
+      baseUrl: route.baseUrl,
+      apiKey: route.apiKey,
+      modelName: route.modelName,
+      provider: route.provider,
+      retry: { maxRetries: this.settings.maxRetries },
+      requestsPerMinute: this.settings.requestsPerMinute,
+      onUsage: (usage, model) => this.usageLedger.record(feature, model, usage),
+      fixtures: this.fixtureStore,
+      cache: this.settings.responseCacheEnabled ? this.responseCache : undefined,
+      onExchange: this.settings.recordFixtures && route.provider !== 'scripted'
+        ? (exchange) => this.fixtureStore.record(exchange)
+        : undefined,
     });
   }
 
+  /**
+   * Registry with every available agent tool and the user's permission policy.
+   * With a turn, vault changes made by the tools are recorded in the change journal.
+   */
+  createToolRegistry(turn?: { sessionId: string; turnId: string }): ToolRegistry {
+    const recordChange = turn
+      ? (change: VaultChange) => this.changeJournal.record(change, turn.sessionId, turn.turnId)
+      : undefined;
+
+    const toolRegistry = new ToolRegistry();
+    toolRegistry.register(createSearchVaultTool(this.app));
+    toolRegistry.register(createReadNoteTool(this.app));
+    toolRegistry.register(createReadImageTool(this.app));
+    toolRegistry.register(createWriteNoteTool(this.app, recordChange));
+    toolRegistry.register(createEditNoteTool(this.app, recordChange));
+    toolRegistry.register(createUpdateFrontmatterTool(this.app, recordChange));
+    toolRegistry.register(createMoveFileTool(this.app, recordChange));
+    toolRegistry.register(createRenameFileTool(this.app, recordChange));
+    toolRegistry.register(createCreateFolderTool(this.app, recordChange));
+    toolRegistry.register(createTrashFileTool(this.app, recordChange));
+    toolRegistry.register(createListNotesTool(this.app));
+    toolRegistry.register(createQueryNotesTool(this.app));
+    toolRegistry.register(createOutgoingLinksTool(this.app));
+    toolRegistry.register(createBacklinksTool(this.app));
+    toolRegistry.register(createUnresolvedLinksTool(this.app));
+    toolRegistry.register(createLinkNeighborhoodTool(this.app));
+    toolRegistry.register(createGetDailyNoteTool(this.app));
+    toolRegistry.register(createCreateDailyNoteTool(this.app, recordChange));
+    toolRegistry.register(createListTemplatesTool(this.app));
+    toolRegistry.register(createNoteFromTemplateTool(this.app, recordChange));
+    toolRegistry.register(createWriteCanvasTool(this.app, recordChange));
+    toolRegistry.register(createExecuteCodeTool(this.sandboxProvider));
+
+    // Memory Palace knowledge graph
+    const getGraph = () => this.knowledgeGraph;
+    toolRegistry.register(createKGFindNodesTool(getGraph, (query) => this.createQueryEmbedding(query)));
+    toolRegistry.register(createKGConnectionsTool(getGraph));
+    toolRegistry.register(createKGSubgraphTool(getGraph));
+    toolRegistry.register(createKGFindPathTool(getGraph));
+    toolRegistry.register(createFlashcardsTool(this.app, () => this.palaceData, getGraph, async () => {
+      await this.savePalaceData();
+      this.refreshPalaceViews();
+    }));
+    toolRegistry.register(createExportGraphCanvasTool(this.app, getGraph, () => this.getGraphLayout(), recordChange));
+
+    // Register Vault QA tools if available
+    if (this.settings.vaultQAEnabled && this.getVaultQATools) {
+      for (const tool of this.getVaultQATools()) {
+        toolRegistry.register(tool);
+      }
+    }
+
+    toolRegistry.setPermissions(this.settings.toolPermissions || {});
+    return toolRegistry;
+  }
+
+  /** Update the review and stats tabs of open Palace views after flashcards changed outside the view */
+  refreshPalaceViews() {
+    for (const leaf of this.app.workspace.getLeavesOfType(PALACE_VIEW_TYPE)) {
+      (leaf.view as PalaceView).refresh();
+    }
+  }
+
+  /** Node positions from the first open 2D Palace graph, or null if none is shown */
+  getGraphLayout(): Map<string, { x: number; y: number }> | null {
+    for (const leaf of this.app.workspace.getLeavesOfType(PALACE_VIEW_TYPE)) {
+      const positions = (leaf.view as PalaceView).getLayoutPositions();
+      if (positions) return positions;
+    }
+    return null;
+  }
+
   /** Create embedding for semantic search (used by Palace view) */
   async createQueryEmbedding(query: string): Promise<number[] | null> {
-    if (!query.trim() || !this.settings.apiKey) return null;
+    const route = resolveModelRoute(this.settings, 'embeddings');
+    if (!query.trim() || !route.apiKey) return null;
     try {
-      const client = this.createLLMClient();
-      const emb = await client.createEmbedding(query.trim(), this.settings.embeddingModel);
+      const client = this.createLLMClient('embeddings');
+      const emb = await client.createEmbedding(query.trim(), route.modelName);
       return emb?.vector ?? null;
     } catch {
       return null;
     }
   }
 
+  private createGraphExtractor(): GraphExtractor {
+    return new GraphExtractor(this.createLLMClient('extraction'), this.createLLMClient('embeddings'));
+  }
+
   async extractKnowledge() {
-    if (!this.validateLLMSettings()) return;
+    if (!this.validateLLMSettings('extraction')) return;
 
     const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
     if (!activeView?.file) {
@@ -394,7 +673,7 @@ export default class ObsidianPalacePlugin extends Plugin {
   }
 
   async extractKnowledgeFromFile(file: TFile) {
-    if (!this.validateLLMSettings()) return;
+    if (!this.validateLLMSettings('extraction')) return;
 
     const content = await this.app.vault.cachedRead(file);
     if (!content.trim()) {
@@ -405,10 +684,10 @@ export default class ObsidianPalacePlugin extends Plugin {
     const notice = new Notice(`Extracting knowledge from: ${file.basename}...`, 0);
 
     try {
-      const extractor = new GraphExtractor(this.createLLMClient());
+      const extractor = this.createGraphExtractor();
       const result = await extractor.extract(content, file.path, {
         embedding: this.settings.embeddingEnabled,
-        embeddingModel: this.settings.embeddingModel,
+        embeddingModel: resolveModelRoute(this.settings, 'embeddings').modelName,
       });
 
       // Merge into knowledge graph
@@ -449,7 +728,7 @@ export default class ObsidianPalacePlugin extends Plugin {
    * Extract knowledge from all markdown files in the vault
    */
   async extractKnowledgeBatch() {
-    if (!this.validateLLMSettings()) return;
+    if (!this.validateLLMSettings('extraction')) return;
 
     const files = this.app.vault.getMarkdownFiles();
     if (files.length === 0) {
@@ -471,7 +750,7 @@ export default class ObsidianPalacePlugin extends Plugin {
    * Extract knowledge from files not yet processed (incremental update)
    */
   async extractKnowledgeIncremental() {
-    if (!this.validateLLMSettings()) return;
+    if (!this.validateLLMSettings('extraction')) return;
 
     const processedFiles = new Set(this.palaceData?.processedFiles || []);
     const allFiles = this.app.vault.getMarkdownFiles();
@@ -530,10 +809,10 @@ export default class ObsidianPalacePlugin extends Plugin {
         }
 
         // Create a new extractor for each concurrent request
-        const extractor = new GraphExtractor(this.createLLMClient());
+        const extractor = this.createGraphExtractor();
         const result = await extractor.extract(content, file.path, {
           embedding: this.settings.embeddingEnabled,
-          embeddingModel: this.settings.embeddingModel,
+          embeddingModel: resolveModelRoute(this.settings, 'embeddings').modelName,
         });
 
         if (signal.aborted) return null;
@@ -632,6 +911,86 @@ export default class ObsidianPalacePlugin extends Plugin {
     });
   }
 
+  /* ---- Change Journal ---- */
+
+  /**
+   * Revert agent changes, asking first if any file was edited since.
+   * Returns false if nothing was reverted.
+   */
+  async revertAgentChanges(entries: JournalEntry[]): Promise<boolean> {
+    const pending = entries.filter(e => !e.reverted);
+    if (pending.length === 0) {
+      new Notice('Nothing to revert');
+      return false;
+    }
+
+    const conflicts = await findConflicts(this.app, pending);
+    if (conflicts.length > 0) {
+      const confirmed = await this.showConfirmDialog(
+        'Overwrite later edits?',
+        `These files changed after the agent edited them: ${conflicts.join(', ')}. Reverting will discard those edits.`
+      );
+      if (!confirmed) return false;
+    }
+
+    try {
+      await revertChanges(this.app, pending);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      new Notice(`Revert failed: ${msg}`);
+      return false;
+    }
+
+    this.changeJournal.markReverted(pending.map(e => e.id));
+    new Notice(`Reverted ${pending.length} change(s)`);
+    return true;
+  }
+
+  async undoLastAgentTurn() {
+    const turnId = this.changeJournal.getLastTurnId();
+    if (!turnId) {
+      new Notice('No agent changes to undo');
+      return;
+    }
+    await this.revertAgentChanges(this.changeJournal.getTurn(turnId));
+  }
+
+  /* ---- Agent Traces ---- */
+
+  addAgentTrace(trace: AgentTrace) {
+    this.agentTraces.unshift(trace);
+    if (this.agentTraces.length > MAX_AGENT_TRACES) {
+      this.agentTraces.length = MAX_AGENT_TRACES;
+    }
+  }
+
+  /**
+   * Write a trace as a Markdown note in the trace folder and open it
+   */
+  async openAgentTrace(trace: AgentTrace) {
+    const folder = (this.settings.traceFolder || 'Palace Traces').replace(/\/+$/, '');
+    const stamp = new Date(trace.startedAt).toISOString().slice(0, 19).replace(/[T:]/g, '-');
+    const title = trace.sessionTitle.replace(/[\\/:*?"<>|#^[\]]/g, '').slice(0, 40).trim();
+    const path = `${folder}/${stamp} ${title}.md`;
+
+    try {
+      if (!this.app.vault.getAbstractFileByPath(folder)) {
+        await this.app.vault.createFolder(folder);
+      }
+      const content = formatTraceMarkdown(trace);
+      let file = this.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) {
+        await this.app.vault.modify(file, content);
+      } else {
+        file = await this.app.vault.create(path, content);
+      }
+      await this.app.workspace.getLeaf('tab').openFile(file as TFile);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      new Notice(`Failed to write trace: ${msg}`);
+    }
+  }
+
   /* ---- Views ---- */
 
   async activateChatView() {
@@ -666,9 +1025,7 @@ export default class ObsidianPalacePlugin extends Plugin {
 
   private createTranslator(): Translator {
     const config: TranslatorConfig = {
-      baseUrl: this.settings.baseUrl,
-      apiKey: this.settings.apiKey,
-      modelName: this.settings.modelName,
+      llmClient: this.createLLMClient('translation'),
       targetLang: this.settings.targetLang,
       systemPrompt: this.settings.systemPrompt,
       maxChunkSize: this.settings.maxChunkSize,
@@ -686,7 +1043,7 @@ export default class ObsidianPalacePlugin extends Plugin {
   }
 
   async translateCurrentDocument() {
-    if (!this.validateLLMSettings()) return;
+    if (!this.validateLLMSettings('translation')) return;
 
     const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
     if (!activeView?.file) {
@@ -697,7 +1054,7 @@ export default class ObsidianPalacePlugin extends Plugin {
   }
 
   async translateFile(file: TFile) {
-    if (!this.validateLLMSettings()) return;
+    if (!this.validateLLMSettings('translation')) return;
 
     const translator = this.createTranslator();
     const content = await this.app.vault.cachedRead(file);
@@ -749,7 +1106,7 @@ export default class ObsidianPalacePlugin extends Plugin {
   }
 
   async translateSelection(editor: Editor) {
-    if (!this.validateLLMSettings()) return;
+    if (!this.validateLLMSettings('translation')) return;
 
     const selection = editor.getSelection();
     if (!selection.trim()) {
@@ -860,3 +1217,60 @@ class ConfirmModal extends Modal {
     contentEl.empty();
   }
 }
+
+/**
+ * Pick a journal entry to revert
+ */
+class JournalEntryModal extends FuzzySuggestModal<JournalEntry> {
+  private entries: JournalEntry[];
+  private onChoose: (entry: JournalEntry) => void;
+
+  constructor(app: App, entries: JournalEntry[], onChoose: (entry: JournalEntry) => void) {
+    super(app);
+    this.entries = entries;
+    this.onChoose = onChoose;
+    this.setPlaceholder('Revert an agent change...');
+  }
+
+  getItems(): JournalEntry[] {
+    return this.entries;
+  }
+
+  getItemText(entry: JournalEntry): string {
+    const time = new Date(entry.timestamp).toLocaleString();
+    const description = describeChange(entry);
+    return `${description.charAt(0).toUpperCase()}${description.slice(1)} · ${time}`;
+  }
+
+  onChooseItem(entry: JournalEntry): void {
+    this.onChoose(entry);
+  }
+}
+
+/**
+ * Pick a recorded agent trace
+ */
+class AgentTraceModal extends FuzzySuggestModal<AgentTrace> {
+  private traces: AgentTrace[];
+  private onChoose: (trace: AgentTrace) => void;
+
+  constructor(app: App, traces: AgentTrace[], onChoose: (trace: AgentTrace) => void) {
+    super(app);
+    this.traces = traces;
+    this.onChoose = onChoose;
+    this.setPlaceholder('Open an agent trace...');
+  }
+
+  getItems(): AgentTrace[] {
+    return this.traces;
+  }
+
+  getItemText(trace: AgentTrace): string {
+    const time = new Date(trace.startedAt).toLocaleString();
+    return `${trace.sessionTitle} · ${time} · ${trace.events.length} events${trace.error ? ' · error' : ''}`;
+  }
+
+  onChooseItem(trace: AgentTrace): void {
+    this.onChoose(trace);
+  }
+}
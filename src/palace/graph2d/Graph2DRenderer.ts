@@ -472,6 +472,13 @@ export class Graph2DRenderer {
     }
   }
 
+  /** Current world-space positions of the laid-out nodes */
+  getNodePositions(): Map<string, { x: number; y: number }> {
+    const positions = new Map<string, { x: number; y: number }>();
+    for (const n of this.nodes.values()) positions.set(n.id, { x: n.x, y: n.y });
+    return positions;
+  }
+
   regenerate(): void {
     if (this.graph) {
       this.initializeGraph(this.graph);
@@ -3,6 +3,7 @@
  */
 
 import { LLMClient } from '../shared/llmClient';
+import type { JsonSchema } from '../shared/structuredOutput';
 import type {
   KnowledgeNode,
   KnowledgeEdge,
@@ -51,13 +52,72 @@ Rules:
 - Edge weights: 1.0 = very strong relation, 0.5 = moderate, 0.1 = weak
 - Focus on the most important and memorable knowledge`;
 
-function generateId(): string {
+/** Shape of the raw extraction reply, validated before it is transformed */
+const EXTRACTION_SCHEMA: JsonSchema & { name: string } = {
+  name: 'knowledge_extraction',
+  type: 'object',
+  required: ['nodes', 'edges', 'flashcards'],
+  properties: {
+    nodes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'label', 'type', 'description'],
+        properties: {
+          id: { type: 'string' },
+          label: { type: 'string' },
+          type: { type: 'string', enum: ['concept', 'entity', 'topic', 'fact'] },
+          description: { type: 'string' },
+        },
+      },
+    },
+    edges: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['source', 'target', 'label', 'weight'],
+        properties: {
+          source: { type: 'string' },
+          target: { type: 'string' },
+          label: { type: 'string' },
+          weight: { type: 'number', minimum: 0, maximum: 1 },
+        },
+      },
+    },
+    flashcards: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['front', 'back'],
+        properties: {
+          front: { type: 'string' },
+          back: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
+interface RawExtraction {
+  nodes: Array<{ id: string; label: string; type: string; description: string }>;
+  edges: Array<{ source: string; target: string; label: string; weight: number }>;
+  flashcards: Array<{ front: string; back: string }>;
+}
+
+export function generateId(): string {
   // A simple but effective random ID generator replacing Math.random
   return Date.now().toString(36) + Math.random().toString(36).substring(2, 8);
 }
 
 export class GraphExtractor {
-  constructor(private llmClient: LLMClient) {}
+  /**
+   * @param llmClient - client for the extraction completion
+   * @param embeddingClient - client for node embeddings (may route to a different endpoint)
+   */
+  constructor(
+    private llmClient: LLMClient,
+    private embeddingClient: LLMClient = llmClient
+  ) {}
 
   /**
    * Extract knowledge graph data from a document
@@ -74,33 +134,11 @@ export class GraphExtractor {
       { role: 'user', content: `Document:\n\n${content}` },
     ];
 
-    const response = await this.llmClient.complete(messages, {
+    // JSON mode where supported; malformed replies get one repair round-trip
+    const parsed = await this.llmClient.completeJSON<RawExtraction>(messages, EXTRACTION_SCHEMA, {
       temperature: 0.3,
     });
 
-    if (!response.content) {
-      throw new Error('LLM returned empty response during extraction');
-    }
-
-    // Parse JSON from response (handle potential markdown code blocks)
-    let jsonStr = response.content.trim();
-    const jsonMatch = jsonStr.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
-    if (jsonMatch) {
-      jsonStr = jsonMatch[1];
-    }
-
-    let parsed: {
-      nodes: Array<{ id: string; label: string; type: string; description: string }>;
-      edges: Array<{ source: string; target: string; label: string; weight: number }>;
-      flashcards: Array<{ front: string; back: string }>;
-    };
-
-    try {
-      parsed = JSON.parse(jsonStr);
-    } catch {
-      throw new Error('Failed to parse extraction result as JSON');
-    }
-
     const now = Date.now();
 
     // Transform to our types
@@ -141,7 +179,7 @@ export class GraphExtractor {
     if (options?.embedding && nodes.length > 0) {
       const texts = nodes.map(n => `${n.label}. ${n.description}`.slice(0, 8000));
       try {
-        const embeddings = await this.llmClient.createEmbeddings(texts, options.embeddingModel);
+        const embeddings = await this.embeddingClient.createEmbeddings(texts, options.embeddingModel);
         for (let i = 0; i < nodes.length; i++) {
           if (embeddings[i]?.vector) nodes[i].embedding = embeddings[i].vector;
         }
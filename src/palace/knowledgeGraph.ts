@@ -233,11 +233,11 @@ export class KnowledgeGraph {
       for (const nodeId of currentLevel) {
         const connections = this.getConnections(nodeId);
         for (const conn of connections) {
-          subNodes.set(conn.node.id, conn.node);
-          subEdges.set(conn.edge.id, conn.edge);
           if (!subNodes.has(conn.node.id)) {
             nextLevel.add(conn.node.id);
           }
+          subNodes.set(conn.node.id, conn.node);
+          subEdges.set(conn.edge.id, conn.edge);
         }
       }
       currentLevel = nextLevel;
@@ -10,6 +10,7 @@ import type { QualityRating } from './reviewScheduler';
 import type { KnowledgeNode, Flashcard } from '../shared/types';
 import { Graph2DRenderer } from './graph2d';
 import { Graph3DRenderer } from './graph3d';
+import { estimateCost, formatCost, formatTokens } from '../shared/usageLedger';
 
 // Node type colors - defined locally to avoid minification issues
 const NODE_COLORS: Record<string, string> = {
@@ -62,6 +63,21 @@ export class PalaceView extends ItemView {
     }
   }
 
+  /**
+   * Re-render the review queue and stats after flashcards were added from chat.
+   * The graph is left alone so its layout, camera and selection survive.
+   */
+  refresh() {
+    if (this.container && this.mode !== 'graph') this.render();
+  }
+
+  /**
+   * Node positions of the 2D graph as currently laid out, or null when it is not shown
+   */
+  getLayoutPositions(): Map<string, { x: number; y: number }> | null {
+    return this.graphRenderer instanceof Graph2DRenderer ? this.graphRenderer.getNodePositions() : null;
+  }
+
   /* ---- Render ---- */
 
   private render() {
@@ -781,6 +797,47 @@ export class PalaceView extends ItemView {
         `Last updated: ${new Date(graphStats.lastUpdated).toLocaleDateString()}`
       );
     }
+
+    this.renderUsageStats(container);
+  }
+
+  private renderUsageStats(container: HTMLElement) {
+    const ledger = this.plugin.usageLedger;
+    const prices = this.plugin.settings.modelPrices || [];
+    const totals = ledger.getTotals(prices);
+
+    const section = container.createDiv({ cls: 'palace-usage-section' });
+    section.createEl('h3', { text: 'Token Usage' });
+
+    const usageGrid = section.createDiv({ cls: 'palace-stats-grid' });
+    this.createStatCard(usageGrid, '📨', 'Requests', String(totals.requests));
+    this.createStatCard(usageGrid, '⬆️', 'Prompt Tokens', formatTokens(totals.promptTokens));
+    this.createStatCard(usageGrid, '⬇️', 'Completion Tokens', formatTokens(totals.completionTokens));
+    this.createStatCard(usageGrid, '💰', 'Est. Cost', formatCost(totals.cost));
+
+    const entries = [...ledger.getEntries()].sort((a, b) =>
+      a.feature.localeCompare(b.feature) || b.promptTokens + b.completionTokens - (a.promptTokens + a.completionTokens)
+    );
+    if (entries.length > 0) {
+      const table = section.createEl('table', { cls: 'palace-usage-table' });
+      const headRow = table.createEl('thead').createEl('tr');
+      for (const label of ['Feature', 'Model', 'Requests', 'Prompt', 'Completion', 'Cost']) {
+        headRow.createEl('th', { text: label });
+      }
+      const body = table.createEl('tbody');
+      for (const entry of entries) {
+        const row = body.createEl('tr');
+        row.createEl('td', { text: entry.feature });
+        row.createEl('td', { text: entry.model });
+        row.createEl('td', { text: String(entry.requests) });
+        row.createEl('td', { text: formatTokens(entry.promptTokens) });
+        row.createEl('td', { text: formatTokens(entry.completionTokens) });
+        row.createEl('td', { text: formatCost(estimateCost(entry, prices)) });
+      }
+    }
+
+    const since = section.createDiv({ cls: 'palace-last-update' });
+    since.setText(`Tracking since: ${new Date(ledger.getData().since).toLocaleDateString()}`);
   }
 
   private createStatCard(parent: HTMLElement, icon: string, label: string, value: string) {
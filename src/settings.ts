@@ -1,13 +1,34 @@
 import { App, Notice, PluginSettingTab, Setting } from 'obsidian';
 import type ObsidianPalacePlugin from './main';
+import type { LLMProviderType } from './shared/llmClient';
+import { LLM_FEATURES, createProfileId } from './shared/modelRouting';
+import type { ModelRoutingTable, ProviderProfile } from './shared/modelRouting';
+import { formatPriceTable, parsePriceTable } from './shared/usageLedger';
+import type { ModelPrice } from './shared/usageLedger';
+import type { ToolPermission } from './shared/types';
 
 export type TranslationMode = 'newFile' | 'append' | 'replace';
 
 export interface PalaceSettings {
   // LLM settings
+  apiProvider: LLMProviderType;
   baseUrl: string;
   apiKey: string;
   modelName: string;
+  // Resilience: retries with backoff and a shared per-provider request budget
+  maxRetries: number;
+  requestsPerMinute: number;
+  // On-disk cache for non-streaming completions and embeddings
+  responseCacheEnabled: boolean;
+  responseCacheMaxMB: number;
+  // Named endpoints and which feature uses which ('' = the default above)
+  providerProfiles: ProviderProfile[];
+  modelRouting: ModelRoutingTable;
+  // USD per 1M tokens, used for cost estimates in the usage ledger
+  modelPrices: ModelPrice[];
+  // Scripted provider: vault-relative JSON fixture file, and whether live calls are recorded into it
+  fixturePath: string;
+  recordFixtures: boolean;
 
   // Translation settings
   targetLang: string;
@@ -18,6 +39,16 @@ export interface PalaceSettings {
   // Agent settings
   agentEnabled: boolean;
   agentMaxIterations: number;
+  agentParallelTools: number;
+  // Per-tool overrides; unlisted tools use the tool's default
+  toolPermissions: Record<string, ToolPermission>;
+  // Debug traces of agent turns, exported as notes into traceFolder
+  agentTracing: boolean;
+  traceFolder: string;
+  // Context window management
+  contextWindow: number;          // 0 = detect from model name
+  autoCompact: boolean;
+  maxToolResultTokens: number;
 
   // Sandbox settings
   sandboxProvider: 'e2b' | 'none';
@@ -42,15 +73,39 @@ export interface PalaceSettings {
 }
 
 export const DEFAULT_SETTINGS: Partial<PalaceSettings> = {
+  apiProvider: 'openai',
   baseUrl: 'https://api.openai.com/v1',
   apiKey: '',
   modelName: 'gpt-4o',
+  maxRetries: 3,
+  requestsPerMinute: 0,
+  responseCacheEnabled: true,
+  responseCacheMaxMB: 50,
+  providerProfiles: [],
+  modelRouting: {},
+  modelPrices: [
+    { model: 'gpt-4o', input: 2.5, output: 10 },
+    { model: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+    { model: 'text-embedding-3-small', input: 0.02, output: 0 },
+    { model: 'deepseek-chat', input: 0.27, output: 1.1 },
+    { model: 'claude-sonnet-4', input: 3, output: 15 },
+    { model: 'claude-haiku-4', input: 1, output: 5 },
+  ],
+  fixturePath: 'palace-fixtures.json',
+  recordFixtures: false,
   targetLang: '简体中文',
   systemPrompt: '',
   maxChunkSize: 3000,
   translationMode: 'newFile',
   agentEnabled: true,
   agentMaxIterations: 10,
+  agentParallelTools: 4,
+  toolPermissions: {},
+  agentTracing: false,
+  traceFolder: 'Palace Traces',
+  contextWindow: 0,
+  autoCompact: true,
+  maxToolResultTokens: 8000,
   sandboxProvider: 'none',
   e2bApiKey: '',
   e2bDomain: '',
@@ -83,9 +138,24 @@ export class PalaceSettingTab extends PluginSettingTab {
 
     containerEl.createEl('h3', { text: 'LLM Configuration' });
 
+    new Setting(containerEl)
+      .setName('API Format')
+      .setDesc('Wire format of the endpoint. Anthropic uses the native Messages API (no embeddings). Scripted replays fixtures offline.')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('openai', 'OpenAI-compatible')
+          .addOption('anthropic', 'Anthropic Messages')
+          .addOption('scripted', 'Scripted (fixtures)')
+          .setValue(this.plugin.settings.apiProvider || 'openai')
+          .onChange(async (value) => {
+            this.plugin.settings.apiProvider = value as LLMProviderType;
+            await this.plugin.saveSettings();
+          })
+      );
+
     new Setting(containerEl)
       .setName('API Base URL')
-      .setDesc('OpenAI-compatible API endpoint')
+      .setDesc('API endpoint (e.g. https://api.openai.com/v1 or https://api.anthropic.com/v1)')
       .addText((text) =>
         text
           .setPlaceholder('https://api.openai.com/v1')
@@ -112,7 +182,7 @@ export class PalaceSettingTab extends PluginSettingTab {
 
     new Setting(containerEl)
       .setName('Model Name')
-      .setDesc('Model to use (e.g. gpt-4o, deepseek-chat, qwen-plus)')
+      .setDesc('Model to use (e.g. gpt-4o, deepseek-chat, qwen-plus, claude-sonnet-4-5)')
       .addText((text) =>
         text
           .setPlaceholder('gpt-4o')
@@ -123,6 +193,199 @@ export class PalaceSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName('Max Retries')
+      .setDesc('Retries on rate limits (429), server errors (5xx) and network failures, with exponential backoff (0-10)')
+      .addText((text) =>
+        text
+          .setPlaceholder('3')
+          .setValue(String(this.plugin.settings.maxRetries ?? 3))
+          .onChange(async (value) => {
+            const num = parseInt(value, 10);
+            if (!isNaN(num) && num >= 0 && num <= 10) {
+              this.plugin.settings.maxRetries = num;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Requests per Minute')
+      .setDesc('Shared request budget per provider across chat and batch extraction (0 = unlimited)')
+      .addText((text) =>
+        text
+          .setPlaceholder('0')
+          .setValue(String(this.plugin.settings.requestsPerMinute ?? 0))
+          .onChange(async (value) => {
+            const num = parseInt(value, 10);
+            if (!isNaN(num) && num >= 0) {
+              this.plugin.settings.requestsPerMinute = num;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    /* ======== Provider Profiles ======== */
+    containerEl.createEl('h3', { text: 'Provider Profiles' });
+    containerEl.createEl('p', {
+      text: 'Named endpoints that individual features can be routed to (e.g. a local model for extraction).',
+      cls: 'setting-item-description',
+    });
+
+    const profiles = this.plugin.settings.providerProfiles || [];
+    for (const profile of profiles) {
+      this.renderProfile(containerEl, profile);
+    }
+
+    new Setting(containerEl)
+      .addButton((btn) =>
+        btn.setButtonText('+ Add Profile').onClick(async () => {
+          const profile: ProviderProfile = {
+            id: createProfileId(),
+            name: `Profile ${profiles.length + 1}`,
+            provider: 'openai',
+            baseUrl: '',
+            apiKey: '',
+            modelName: '',
+          };
+          this.plugin.settings.providerProfiles = [...profiles, profile];
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
+    /* ======== Model Routing ======== */
+    containerEl.createEl('h3', { text: 'Model Routing' });
+
+    for (const feature of LLM_FEATURES) {
+      new Setting(containerEl)
+        .setName(feature.label)
+        .setDesc(feature.id === 'embeddings'
+          ? 'Default uses the Embedding Model setting; a profile uses its model name as the embedding model'
+          : 'Provider profile used for this feature')
+        .addDropdown((dropdown) => {
+          dropdown.addOption('', 'Default');
+          for (const profile of profiles) {
+            dropdown.addOption(profile.id, profile.name);
+          }
+          const current = this.plugin.settings.modelRouting?.[feature.id] || '';
+          dropdown
+            .setValue(profiles.some(p => p.id === current) ? current : '')
+            .onChange(async (value) => {
+              this.plugin.settings.modelRouting = {
+                ...this.plugin.settings.modelRouting,
+                [feature.id]: value,
+              };
+              await this.plugin.saveSettings();
+            });
+        });
+    }
+
+    /* ======== Usage & Cost ======== */
+    containerEl.createEl('h3', { text: 'Usage & Cost' });
+
+    new Setting(containerEl)
+      .setName('Response Cache')
+      .setDesc('Reuse earlier results for identical extraction, translation and embedding requests (chat replies and conversation summaries are never cached)')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.responseCacheEnabled ?? true)
+          .onChange(async (value) => {
+            this.plugin.settings.responseCacheEnabled = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    const cacheSetting = new Setting(containerEl)
+      .setName('Cache Size Limit (MB)')
+      .setDesc('Least recently used entries are evicted beyond this size')
+      .addText((text) =>
+        text
+          .setPlaceholder('50')
+          .setValue(String(this.plugin.settings.responseCacheMaxMB ?? 50))
+          .onChange(async (value) => {
+            const num = parseFloat(value);
+            if (!isNaN(num) && num > 0) {
+              this.plugin.settings.responseCacheMaxMB = num;
+              this.plugin.responseCache.setMaxBytes(num * 1024 * 1024);
+              await this.plugin.saveSettings();
+            }
+          })
+      )
+      .addButton((btn) =>
+        btn.setButtonText('Clear').onClick(async () => {
+          await this.plugin.responseCache.clear();
+          new Notice('Response cache cleared');
+          this.display();
+        })
+      );
+    this.plugin.responseCache.getStats().then((stats) => {
+      cacheSetting.setDesc(
+        `Least recently used entries are evicted beyond this size. Now: ${stats.entries} entries, ${(stats.bytes / 1024 / 1024).toFixed(1)} MB.`
+      );
+    }).catch((e) => console.warn('Obsidian Palace: could not read response cache stats:', e));
+
+    new Setting(containerEl)
+      .setName('Model Prices')
+      .setDesc('One per line: "model: input, output" in USD per 1M tokens. Matches exact names first, then the longest prefix.')
+      .addTextArea((text) => {
+        text
+          .setPlaceholder('gpt-4o: 2.5, 10\ntext-embedding-3-small: 0.02, 0')
+          .setValue(formatPriceTable(this.plugin.settings.modelPrices || []))
+          .onChange(async (value) => {
+            this.plugin.settings.modelPrices = parsePriceTable(value);
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 5;
+        text.inputEl.cols = 40;
+      });
+
+    new Setting(containerEl)
+      .setName('Usage Ledger')
+      .setDesc('Token usage is tracked per feature and model. See the Stats tab in Memory Palace.')
+      .addButton((btn) =>
+        btn.setButtonText('Reset').onClick(async () => {
+          this.plugin.usageLedger.reset();
+          await this.plugin.saveUsageLedger();
+          new Notice('Usage ledger reset');
+        })
+      );
+
+    /* ======== Scripted Provider ======== */
+    containerEl.createEl('h3', { text: 'Scripted Provider (Offline)' });
+
+    new Setting(containerEl)
+      .setName('Fixture File')
+      .setDesc('Vault-relative JSON file replayed by the "Scripted" API format')
+      .addText((text) =>
+        text
+          .setPlaceholder('palace-fixtures.json')
+          .setValue(this.plugin.settings.fixturePath || '')
+          .onChange(async (value) => {
+            this.plugin.settings.fixturePath = value.trim();
+            await this.plugin.saveSettings();
+          })
+      )
+      .addButton((btn) =>
+        btn.setButtonText('Reload').onClick(async () => {
+          if (await this.plugin.loadFixtures()) {
+            new Notice(`Loaded ${this.plugin.fixtureStore.size} fixture(s)`);
+          }
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Record Fixtures')
+      .setDesc('Append every live LLM reply to the fixture file, to replay it later offline')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.recordFixtures ?? false)
+          .onChange(async (value) => {
+            this.plugin.settings.recordFixtures = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
     /* ======== Agent Settings ======== */
     containerEl.createEl('h3', { text: 'Agent' });
 
@@ -154,6 +417,118 @@ export class PalaceSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName('Parallel Tool Calls')
+      .setDesc('Maximum independent tool calls run at once (1 = sequential). Writes and code execution always run alone.')
+      .addText((text) =>
+        text
+          .setPlaceholder('4')
+          .setValue(String(this.plugin.settings.agentParallelTools ?? 4))
+          .onChange(async (value) => {
+            const num = parseInt(value, 10);
+            if (!isNaN(num) && num >= 1 && num <= 16) {
+              this.plugin.settings.agentParallelTools = num;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Context Window')
+      .setDesc('Model context size in tokens. 0 = detect from the model name.')
+      .addText((text) =>
+        text
+          .setPlaceholder('0')
+          .setValue(String(this.plugin.settings.contextWindow ?? 0))
+          .onChange(async (value) => {
+            const num = parseInt(value, 10);
+            if (!isNaN(num) && num >= 0) {
+              this.plugin.settings.contextWindow = num;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Auto-compact Chat History')
+      .setDesc('Summarise older turns when a session approaches the context window')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.autoCompact ?? true)
+          .onChange(async (value) => {
+            this.plugin.settings.autoCompact = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Max Tool Result Tokens')
+      .setDesc('Tool results larger than this are truncated before being sent back to the model')
+      .addText((text) =>
+        text
+          .setPlaceholder('8000')
+          .setValue(String(this.plugin.settings.maxToolResultTokens ?? 8000))
+          .onChange(async (value) => {
+            const num = parseInt(value, 10);
+            if (!isNaN(num) && num >= 500) {
+              this.plugin.settings.maxToolResultTokens = num;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Record Agent Traces')
+      .setDesc('Capture prompts, tool definitions, tool results and timings of each agent turn (kept in memory). Open them with the trace button in the chat header or "Open Agent Trace...".')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.agentTracing ?? false)
+          .onChange(async (value) => {
+            this.plugin.settings.agentTracing = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Trace Folder')
+      .setDesc('Folder where opened traces are written as Markdown notes')
+      .addText((text) =>
+        text
+          .setPlaceholder('Palace Traces')
+          .setValue(this.plugin.settings.traceFolder || '')
+          .onChange(async (value) => {
+            this.plugin.settings.traceFolder = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    containerEl.createEl('h4', { text: 'Tool Permissions' });
+    containerEl.createEl('p', {
+      text: 'Ask shows an approval card in the chat with the proposed change or code before the tool runs.',
+      cls: 'setting-item-description',
+    });
+
+    const toolRegistry = this.plugin.createToolRegistry();
+    for (const tool of toolRegistry.getAll()) {
+      new Setting(containerEl)
+        .setName(tool.name)
+        .setDesc(tool.description)
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOption('allow', 'Always allow')
+            .addOption('ask', 'Ask')
+            .addOption('deny', 'Deny')
+            .setValue(toolRegistry.getPermission(tool.name))
+            .onChange(async (value) => {
+              this.plugin.settings.toolPermissions = {
+                ...this.plugin.settings.toolPermissions,
+                [tool.name]: value as ToolPermission,
+              };
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
     /* ======== Sandbox Settings ======== */
     containerEl.createEl('h3', { text: 'Cloud Sandbox' });
 
@@ -425,4 +800,67 @@ export class PalaceSettingTab extends PluginSettingTab {
         );
     }
   }
+
+  private renderProfile(containerEl: HTMLElement, profile: ProviderProfile) {
+    const update = async (patch: Partial<ProviderProfile>) => {
+      Object.assign(profile, patch);
+      await this.plugin.saveSettings();
+    };
+
+    new Setting(containerEl)
+      .setName('Profile')
+      .addText((text) =>
+        text
+          .setPlaceholder('Name')
+          .setValue(profile.name)
+          .onChange((value) => update({ name: value || 'Unnamed' }))
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('openai', 'OpenAI-compatible')
+          .addOption('anthropic', 'Anthropic Messages')
+          .addOption('scripted', 'Scripted (fixtures)')
+          .setValue(profile.provider)
+          .onChange((value) => update({ provider: value as LLMProviderType }))
+      )
+      .addExtraButton((btn) =>
+        btn
+          .setIcon('trash-2')
+          .setTooltip('Delete profile')
+          .onClick(async () => {
+            this.plugin.settings.providerProfiles = this.plugin.settings.providerProfiles
+              .filter(p => p.id !== profile.id);
+            // Routes pointing at the deleted profile fall back to default
+            const routing: ModelRoutingTable = { ...this.plugin.settings.modelRouting };
+            for (const feature of LLM_FEATURES) {
+              if (routing[feature.id] === profile.id) routing[feature.id] = '';
+            }
+            this.plugin.settings.modelRouting = routing;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    new Setting(containerEl)
+      .setDesc('Base URL · API key · model')
+      .addText((text) =>
+        text
+          .setPlaceholder('https://api.openai.com/v1')
+          .setValue(profile.baseUrl)
+          .onChange((value) => update({ baseUrl: value }))
+      )
+      .addText((text) => {
+        text
+          .setPlaceholder('API key')
+          .setValue(profile.apiKey)
+          .onChange((value) => update({ apiKey: value }));
+        text.inputEl.type = 'password';
+      })
+      .addText((text) =>
+        text
+          .setPlaceholder('Model name')
+          .setValue(profile.modelName)
+          .onChange((value) => update({ modelName: value }))
+      );
+  }
 }
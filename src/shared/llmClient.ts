@@ -1,39 +1,59 @@
 /**
  * Unified LLM client supporting both streaming and non-streaming,
- * with tool calling support for OpenAI-compatible APIs.
+ * with tool calling support.
+ *
+ * Wire formats are delegated to a provider (OpenAI-compatible, native
+ * Anthropic Messages, or scripted fixtures); the client owns transport,
+ * SSE decoding, retries and the shared per-provider rate limiter.
+ * Non-streaming completions, validated JSON replies and embeddings can be
+ * served from a response cache.
  */
 
 import { requestUrl } from 'obsidian';
-import type { LLMMessage, LLMResponse, LLMStreamDelta, ToolDefinition, ToolCall } from './types';
-
-/* ---- Embedding Types ---- */
-
-export interface Embedding {
-  vector: number[];
-  text: string;
-  tokens?: number;
-}
-
-export interface EmbeddingResponse {
-  data: Array<{
-    embedding: number[];
-    index: number;
-  }>;
-  model: string;
-  usage?: {
-    prompt_tokens: number;
-    total_tokens: number;
-  };
-}
+import type { LLMMessage, LLMResponse, LLMStreamDelta, LLMUsage, ToolDefinition } from './types';
+import { DEFAULT_RETRY_POLICY, LLMApiError, getRetryAfterMs, withRetry } from './retry';
+import type { RetryPolicy } from './retry';
+import { getRateLimiter } from './rateLimiter';
+import { createProvider } from './providers';
+import type { Embedding, FixtureStore, LLMProvider, LLMProviderType, ProviderRequest, RecordedExchange } from './providers';
+import { StructuredOutputError, buildRepairPrompt, parseJsonReply, validateJson } from './structuredOutput';
+import type { JsonSchema, ResponseFormat } from './structuredOutput';
+import type { ResponseCache } from './responseCache';
+
+export type { Embedding, EmbeddingResponse, LLMProviderType } from './providers';
 
 export interface LLMClientConfig {
   baseUrl: string;
   apiKey: string;
   modelName: string;
+  /** Wire format (default: OpenAI-compatible) */
+  provider?: LLMProviderType;
+  /** Overrides for the default retry policy */
+  retry?: Partial<RetryPolicy>;
+  /** Shared request budget per provider (0 or undefined = unlimited) */
+  requestsPerMinute?: number;
+  /** Called with the token usage of every successful request */
+  onUsage?: (usage: LLMUsage, model: string) => void;
+  /** Fixtures replayed by the scripted provider */
+  fixtures?: FixtureStore;
+  /** Called with every successful exchange, e.g. to record fixtures */
+  onExchange?: (exchange: RecordedExchange) => void;
+  /** Cache for complete() and embeddings; individual calls can opt out */
+  cache?: ResponseCache;
 }
 
+/** Strongest JSON mode to request; downgraded when an endpoint rejects it */
+type JsonModeSupport = 'json_schema' | 'json_object' | 'none';
+
 export class LLMClient {
-  constructor(private config: LLMClientConfig) {}
+  private retryPolicy: RetryPolicy;
+  private provider: LLMProvider;
+  private jsonMode: JsonModeSupport = 'json_schema';
+
+  constructor(private config: LLMClientConfig) {
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...config.retry };
+    this.provider = createProvider(config.provider, config);
+  }
 
   /**
    * Non-streaming completion (for translation, extraction, etc.)
@@ -44,48 +64,126 @@ export class LLMClient {
       temperature?: number;
       tools?: ToolDefinition[];
       maxTokens?: number;
+      responseFormat?: ResponseFormat;
+      signal?: AbortSignal;
+      /** Set to false to bypass the response cache */
+      cache?: boolean;
     }
   ): Promise<LLMResponse> {
-    const url = this.config.baseUrl.replace(/\/+$/, '') + '/chat/completions';
-
-    const body: Record<string, unknown> = {
-      model: this.config.modelName,
-      messages: messages.map(m => this.serializeMessage(m)),
-      temperature: options?.temperature ?? 0.7,
-    };
+    const request = this.provider.buildChatRequest(messages, {
+      temperature: options?.temperature,
+      tools: options?.tools,
+      maxTokens: options?.maxTokens,
+      responseFormat: options?.responseFormat,
+    });
 
-    if (options?.tools && options.tools.length > 0) {
-      body.tools = options.tools;
+    const cache = options?.cache === false ? undefined : this.getCache();
+    const cacheKey = cache ? await cache.key({ url: request.url, body: request.body }) : '';
+    if (cache) {
+      const cached = await cache.get<LLMResponse>(cacheKey).catch(() => undefined);
+      if (cached) return cached;
     }
-    if (options?.maxTokens) {
-      body.max_tokens = options.maxTokens;
+
+    const data = await this.postJSON(request, 'API request failed', options?.signal);
+    const response = this.provider.parseChatResponse(data);
+    this.reportUsage(response.usage, this.config.modelName);
+    this.config.onExchange?.({ kind: 'chat', messages, response });
+
+    // Cache without usage: a hit costs nothing and must not be counted again
+    if (cache && (response.content || response.tool_calls)) {
+      cache.set(cacheKey, { ...response, usage: undefined }).catch(() => {});
     }
+    return response;
+  }
 
-    const response = await requestUrl({
-      url,
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.config.apiKey}`,
-      },
-      body: JSON.stringify(body),
-    });
+  /**
+   * The cache, unless the provider is in-process (replayed fixtures must stay in sequence)
+   */
+  private getCache(): ResponseCache | undefined {
+    return this.provider.transport ? undefined : this.config.cache;
+  }
 
-    if (response.status !== 200) {
-      throw new Error(`API request failed (${response.status}): ${response.text}`);
+  /**
+   * Completion that must return JSON matching a schema.
+   * Uses the endpoint's JSON mode where available; invalid replies get
+   * `maxRepairs` repair round-trips before a StructuredOutputError is thrown.
+   */
+  async completeJSON<T>(
+    messages: LLMMessage[],
+    schema: JsonSchema & { name: string },
+    options?: {
+      temperature?: number;
+      maxTokens?: number;
+      maxRepairs?: number;
+      signal?: AbortSignal;
     }
+  ): Promise<T> {
+    const maxRepairs = options?.maxRepairs ?? 1;
+    const conversation = [...messages];
+    let errors: string[] = [];
+    let raw = '';
+
+    // Only validated values are cached, so a bad reply is never replayed
+    const cache = this.getCache();
+    const cacheKey = cache
+      ? await cache.key({ baseUrl: this.config.baseUrl, model: this.config.modelName, messages, schema, temperature: options?.temperature })
+      : '';
+    if (cache) {
+      const cached = await cache.get<T>(cacheKey).catch(() => undefined);
+      if (cached !== undefined) return cached;
+    }
+
+    for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+      const response = await this.completeWithJsonMode(conversation, schema, options);
+      raw = response.content || '';
 
-    const data = response.json;
-    const choice = data.choices?.[0];
-    if (!choice) {
-      throw new Error('API returned empty response');
+      try {
+        const value = parseJsonReply(raw);
+        errors = validateJson(value, schema);
+        if (errors.length === 0) {
+          if (cache) cache.set(cacheKey, value).catch(() => {});
+          return value as T;
+        }
+      } catch (e) {
+        errors = [`reply is not valid JSON (${e instanceof Error ? e.message : String(e)})`];
+      }
+
+      conversation.push(
+        { role: 'assistant', content: raw },
+        { role: 'user', content: buildRepairPrompt(errors) }
+      );
     }
 
-    return {
-      content: choice.message.content,
-      tool_calls: choice.message.tool_calls,
-      finish_reason: choice.finish_reason,
-    };
+    throw new StructuredOutputError(
+      `LLM reply did not match the "${schema.name}" format: ${errors.slice(0, 3).join('; ')}`,
+      errors,
+      raw
+    );
+  }
+
+  /**
+   * Request with the strongest JSON mode the endpoint accepts, remembering downgrades
+   */
+  private async completeWithJsonMode(
+    messages: LLMMessage[],
+    schema: JsonSchema & { name: string },
+    options?: { temperature?: number; maxTokens?: number; signal?: AbortSignal }
+  ): Promise<LLMResponse> {
+    while (true) {
+      const responseFormat: ResponseFormat | undefined =
+        this.jsonMode === 'json_schema' ? { type: 'json_schema', name: schema.name, schema }
+          : this.jsonMode === 'json_object' ? { type: 'json_object' }
+            : undefined;
+
+      try {
+        // Uncached: completeJSON caches the reply once it has been validated
+        return await this.complete(messages, { ...options, responseFormat, cache: false });
+      } catch (e) {
+        const rejected = e instanceof LLMApiError && e.status === 400 && /response_format|json/i.test(e.message);
+        if (!rejected || this.jsonMode === 'none') throw e;
+        this.jsonMode = this.jsonMode === 'json_schema' ? 'json_object' : 'none';
+      }
+    }
   }
 
   /**
@@ -98,45 +196,67 @@ export class LLMClient {
     options?: {
       temperature?: number;
       tools?: ToolDefinition[];
+      maxTokens?: number;
       signal?: AbortSignal;
     }
   ): Promise<LLMResponse> {
-    const url = this.config.baseUrl.replace(/\/+$/, '') + '/chat/completions';
-
-    const body: Record<string, unknown> = {
-      model: this.config.modelName,
-      messages: messages.map(m => this.serializeMessage(m)),
-      temperature: options?.temperature ?? 0.7,
+    const request = this.provider.buildChatRequest(messages, {
+      temperature: options?.temperature,
+      tools: options?.tools,
+      maxTokens: options?.maxTokens,
       stream: true,
-    };
+    });
+
+    const parser = this.provider.createStreamParser(onDelta);
 
-    if (options?.tools && options.tools.length > 0) {
-      body.tools = options.tools;
+    if (this.provider.transport) {
+      await this.provider.transport.stream(request, (payload) => {
+        if (options?.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+        parser.push(payload);
+      });
+    } else {
+      await this.readEventStream(request, (payload) => parser.push(payload), options?.signal);
     }
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.config.apiKey}`,
-      },
-      body: JSON.stringify(body),
-      signal: options?.signal,
-    });
+    const result = parser.finish();
+    this.reportUsage(result.usage, this.config.modelName);
+    this.config.onExchange?.({ kind: 'chat', messages, response: result });
+    return result;
+  }
 
-    if (!response.ok) {
-      const errText = await response.text();
-      throw new Error(`API request failed (${response.status}): ${errText}`);
-    }
+  /**
+   * POST a streaming request and feed each decoded SSE `data:` payload to onPayload
+   */
+  private async readEventStream(
+    request: ProviderRequest,
+    onPayload: (payload: Record<string, any>) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    // Only the connection phase is retried; once tokens are flowing a failure is final
+    const response = await this.withPolicy(async () => {
+      const res = await fetch(request.url, {
+        method: 'POST',
+        headers: request.headers,
+        body: JSON.stringify(request.body),
+        signal,
+      });
+
+      if (!res.ok) {
+        const errText = await res.text();
+        throw new LLMApiError(
+          `API request failed (${res.status}): ${errText}`,
+          res.status,
+          getRetryAfterMs(res.headers)
+        );
+      }
+      return res;
+    }, signal);
 
     const reader = response.body?.getReader();
     if (!reader) throw new Error('Cannot get response stream');
 
     const decoder = new TextDecoder();
     let buffer = '';
-    let fullContent = '';
-    const toolCallAccumulator: Map<number, { id: string; name: string; arguments: string }> = new Map();
-    let finishReason = '';
 
     while (true) {
       const { done, value } = await reader.read();
@@ -147,81 +267,85 @@ export class LLMClient {
       buffer = lines.pop() || '';
 
       for (const line of lines) {
+        // `event:` lines are redundant: every provider repeats the type in the data payload
         const trimmed = line.trim();
         if (!trimmed || !trimmed.startsWith('data:')) continue;
         const data = trimmed.slice(5).trim();
         if (data === '[DONE]') continue;
 
+        let json: Record<string, any>;
         try {
-          const json = JSON.parse(data);
-          const choice = json.choices?.[0];
-          if (!choice) continue;
-
-          if (choice.finish_reason) {
-            finishReason = choice.finish_reason;
-          }
-
-          const delta = choice.delta;
-          if (!delta) continue;
-
-          // Handle content
-          if (delta.content) {
-            fullContent += delta.content;
-            onDelta({ content: delta.content });
-          }
-
-          // Handle tool calls
-          if (delta.tool_calls) {
-            for (const tc of delta.tool_calls) {
-              const idx = tc.index;
-              if (!toolCallAccumulator.has(idx)) {
-                toolCallAccumulator.set(idx, {
-                  id: tc.id || '',
-                  name: tc.function?.name || '',
-                  arguments: '',
-                });
-              }
-              const acc = toolCallAccumulator.get(idx)!;
-              if (tc.id) acc.id = tc.id;
-              if (tc.function?.name) acc.name = tc.function.name;
-              if (tc.function?.arguments) acc.arguments += tc.function.arguments;
-            }
-            onDelta({ tool_calls: delta.tool_calls });
-          }
+          json = JSON.parse(data);
         } catch {
           // ignore parse errors for partial chunks
+          continue;
         }
+        onPayload(json);
       }
     }
+  }
 
-    // Build final tool_calls
-    let toolCalls: ToolCall[] | undefined;
-    if (toolCallAccumulator.size > 0) {
-      toolCalls = [];
-      for (const [, tc] of toolCallAccumulator) {
-        toolCalls.push({
-          id: tc.id,
-          type: 'function',
-          function: { name: tc.name, arguments: tc.arguments },
-        });
-      }
+  private reportUsage(usage: LLMUsage | undefined, model: string): void {
+    if (!usage || !this.config.onUsage) return;
+    try {
+      this.config.onUsage(usage, model);
+    } catch (e) {
+      console.warn('Obsidian Palace: usage reporting failed:', e);
     }
+  }
 
-    return {
-      content: fullContent || null,
-      tool_calls: toolCalls,
-      finish_reason: finishReason || 'stop',
-    };
+  /* ---- Transport ---- */
+
+  /**
+   * Run a request under the shared rate limit and retry policy
+   */
+  private withPolicy<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const limiterKey = this.config.baseUrl.replace(/\/+$/, '');
+    const limiter = getRateLimiter(limiterKey, this.config.requestsPerMinute ?? 0);
+    return withRetry(
+      async () => {
+        if (limiter) await limiter.acquire(signal);
+        return fn();
+      },
+      this.retryPolicy,
+      signal,
+      (error, attempt, delayMs) => {
+        const msg = error instanceof Error ? error.message : String(error);
+        console.warn(`Obsidian Palace: LLM request failed, retry ${attempt}/${this.retryPolicy.maxRetries} in ${delayMs}ms: ${msg}`);
+      }
+    );
   }
 
-  private serializeMessage(msg: LLMMessage): Record<string, unknown> {
-    const result: Record<string, unknown> = {
-      role: msg.role,
-      content: msg.content,
-    };
-    if (msg.tool_call_id) result.tool_call_id = msg.tool_call_id;
-    if (msg.tool_calls) result.tool_calls = msg.tool_calls;
-    return result;
+  /**
+   * Non-streaming JSON POST via requestUrl (bypasses CORS)
+   */
+  private postJSON(
+    request: ProviderRequest,
+    errorPrefix: string,
+    signal?: AbortSignal
+  ): Promise<any> {
+    if (this.provider.transport) {
+      return this.provider.transport.post(request);
+    }
+
+    return this.withPolicy(async () => {
+      const response = await requestUrl({
+        url: request.url,
+        method: 'POST',
+        headers: request.headers,
+        body: JSON.stringify(request.body),
+        throw: false,
+      });
+
+      if (response.status !== 200) {
+        throw new LLMApiError(
+          `${errorPrefix} (${response.status}): ${response.text}`,
+          response.status,
+          getRetryAfterMs(response.headers)
+        );
+      }
+      return response.json;
+    }, signal);
   }
 
   /* ---- Embedding Methods ---- */
@@ -229,45 +353,47 @@ export class LLMClient {
   /**
    * Create embedding for a single text
    */
-  async createEmbedding(text: string, model?: string): Promise<Embedding> {
-    const result = await this.createEmbeddings([text], model);
+  async createEmbedding(text: string, model?: string, options?: { cache?: boolean }): Promise<Embedding> {
+    const result = await this.createEmbeddings([text], model, options);
     return result[0];
   }
 
   /**
-   * Create embeddings for multiple texts in batch
+   * Create embeddings for multiple texts in batch.
+   * With a cache, each text is cached separately and only misses are requested.
    */
-  async createEmbeddings(texts: string[], model?: string): Promise<Embedding[]> {
-    const url = this.config.baseUrl.replace(/\/+$/, '') + '/embeddings';
-
-    const body: Record<string, unknown> = {
-      model: model || this.config.modelName.replace(/^(gpt|chat)/, 'text-embedding'),
-      input: texts,
-    };
-
-    const response = await requestUrl({
-      url,
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.config.apiKey}`,
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (response.status !== 200) {
-      throw new Error(`Embedding API request failed (${response.status}): ${response.text}`);
+  async createEmbeddings(texts: string[], model?: string, options?: { cache?: boolean }): Promise<Embedding[]> {
+    const embeddingModel = model || this.config.modelName.replace(/^(gpt|chat)/, 'text-embedding');
+    const cache = options?.cache === false ? undefined : this.getCache();
+
+    const results: Array<Embedding | undefined> = new Array(texts.length);
+    const keys: string[] = [];
+    if (cache) {
+      for (let i = 0; i < texts.length; i++) {
+        keys[i] = await cache.key({ kind: 'embedding', baseUrl: this.config.baseUrl, model: embeddingModel, text: texts[i] });
+        const vector = await cache.get<number[]>(keys[i]).catch(() => undefined);
+        if (vector) results[i] = { vector, text: texts[i] };
+      }
     }
 
-    const data = response.json as EmbeddingResponse;
+    const missing = texts.map((_, i) => i).filter(i => !results[i]);
+    if (missing.length > 0) {
+      const missingTexts = missing.map(i => texts[i]);
+      const request = this.provider.buildEmbeddingRequest(missingTexts, embeddingModel);
+
+      const data = await this.postJSON(request, 'Embedding API request failed');
+      this.reportUsage(this.provider.parseUsage(data), embeddingModel);
+      const embeddings = this.provider.parseEmbeddingResponse(data, missingTexts);
+      this.config.onExchange?.({ kind: 'embeddings', texts: missingTexts, vectors: embeddings.map(e => e.vector) });
 
-    // Sort by index to preserve order
-    const sortedData = data.data.sort((a, b) => a.index - b.index);
+      missing.forEach((textIndex, j) => {
+        results[textIndex] = embeddings[j];
+        if (cache && embeddings[j]?.vector) {
+          cache.set(keys[textIndex], embeddings[j].vector).catch(() => {});
+        }
+      });
+    }
 
-    return sortedData.map((item, idx) => ({
-      vector: item.embedding,
-      text: texts[idx],
-      tokens: data.usage?.total_tokens ? Math.floor(data.usage.total_tokens / texts.length) : undefined,
-    }));
+    return results as Embedding[];
   }
 }
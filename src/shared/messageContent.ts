@@ -0,0 +1,79 @@
+/**
+ * Message Content - helpers for plain-text and multimodal message content.
+ */
+
+import type { TFile, Vault } from 'obsidian';
+import type { ContentPart, ImagePart, MessageContent } from './types';
+
+/** MIME types by file extension for images vision models accept */
+export const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+/** Providers reject larger images (Anthropic: 5 MB per image) */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+export function isImageFile(file: TFile): boolean {
+  return file.extension.toLowerCase() in IMAGE_MIME_TYPES;
+}
+
+/**
+ * Load a vault image as a base64 content part
+ */
+export async function readImagePart(vault: Vault, file: TFile): Promise<ImagePart> {
+  const mimeType = IMAGE_MIME_TYPES[file.extension.toLowerCase()];
+  if (!mimeType) {
+    throw new Error(`Unsupported image type: .${file.extension} (use ${Object.keys(IMAGE_MIME_TYPES).join(', ')})`);
+  }
+  if (file.stat.size > MAX_IMAGE_BYTES) {
+    throw new Error(`Image too large: ${file.path} (${Math.round(file.stat.size / 1024)} KB, max ${MAX_IMAGE_BYTES / 1024 / 1024} MB)`);
+  }
+  const data = arrayBufferToBase64(await vault.readBinary(file));
+  return { type: 'image', mimeType, data, name: file.path };
+}
+
+/**
+ * Text of a message; images become "[Image: name]" placeholders
+ */
+export function contentToText(content: MessageContent): string {
+  if (typeof content === 'string') return content;
+  return content
+    .map(part => (part.type === 'text' ? part.text : `[Image: ${part.name || part.mimeType}]`))
+    .join('\n');
+}
+
+export function getImageParts(content: MessageContent): ImagePart[] {
+  return typeof content === 'string' ? [] : content.filter((p): p is ImagePart => p.type === 'image');
+}
+
+/**
+ * Content for storage: image data is replaced by text placeholders
+ */
+export function stripImages(content: MessageContent): string {
+  return contentToText(content);
+}
+
+/**
+ * Parts with text first, followed by images
+ */
+export function buildContent(text: string, images: ImagePart[]): MessageContent {
+  if (images.length === 0) return text;
+  const parts: ContentPart[] = [];
+  if (text) parts.push({ type: 'text', text });
+  parts.push(...images);
+  return parts;
+}
+
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + chunk)));
+  }
+  return btoa(binary);
+}
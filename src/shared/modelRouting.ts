@@ -0,0 +1,73 @@
+/**
+ * Model routing - named provider profiles and the per-feature routing table.
+ *
+ * A feature routed to '' (or to a profile that no longer exists) falls back
+ * to the default LLM settings, so existing single-endpoint setups keep working.
+ */
+
+import type { PalaceSettings } from '../settings';
+import type { LLMProviderType } from './providers';
+
+export type LLMFeature = 'chat' | 'extraction' | 'embeddings' | 'translation';
+
+export const LLM_FEATURES: Array<{ id: LLMFeature; label: string }> = [
+  { id: 'chat', label: 'Chat & Agent' },
+  { id: 'extraction', label: 'Knowledge Extraction' },
+  { id: 'embeddings', label: 'Embeddings' },
+  { id: 'translation', label: 'Translation' },
+];
+
+export interface ProviderProfile {
+  id: string;
+  name: string;
+  provider: LLMProviderType;
+  baseUrl: string;
+  apiKey: string;
+  modelName: string;
+}
+
+/** Feature → profile id ('' = default settings) */
+export type ModelRoutingTable = Partial<Record<LLMFeature, string>>;
+
+export interface ResolvedModelRoute {
+  /** Profile name, or 'Default' when using the main LLM settings */
+  profileName: string;
+  provider: LLMProviderType;
+  baseUrl: string;
+  apiKey: string;
+  modelName: string;
+}
+
+export function createProfileId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+}
+
+/**
+ * Resolve the endpoint and model a feature should use.
+ * For embeddings, the default route uses the dedicated embedding model setting,
+ * while a routed profile's model name is taken as the embedding model.
+ */
+export function resolveModelRoute(settings: PalaceSettings, feature: LLMFeature): ResolvedModelRoute {
+  const profileId = settings.modelRouting?.[feature];
+  const profile = profileId
+    ? (settings.providerProfiles || []).find(p => p.id === profileId)
+    : undefined;
+
+  if (profile) {
+    return {
+      profileName: profile.name,
+      provider: profile.provider,
+      baseUrl: profile.baseUrl,
+      apiKey: profile.apiKey,
+      modelName: profile.modelName,
+    };
+  }
+
+  return {
+    profileName: 'Default',
+    provider: settings.apiProvider,
+    baseUrl: settings.baseUrl,
+    apiKey: settings.apiKey,
+    modelName: feature === 'embeddings' ? settings.embeddingModel : settings.modelName,
+  };
+}
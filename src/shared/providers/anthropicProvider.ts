@@ -0,0 +1,311 @@
+/**
+ * Native Anthropic Messages API provider (`/v1/messages`).
+ *
+ * Mapping to the plugin's OpenAI-shaped types:
+ * - system messages → top-level `system` string
+ * - assistant tool_calls → `tool_use` content blocks
+ * - role "tool" messages → `tool_result` blocks inside a user turn
+ * - image parts → `image` blocks with a base64 source
+ * - SSE content_block_* events → LLMStreamDelta content / tool_calls
+ * - `thinking` blocks → LLMStreamDelta reasoning (not sent back)
+ * - responseFormat is not sent (no native JSON mode); callers validate replies
+ */
+
+import { contentToText } from '../messageContent';
+import type { LLMMessage, LLMResponse, LLMStreamDelta, LLMUsage, MessageContent, ToolCall } from '../types';
+import type {
+  ChatRequestOptions,
+  Embedding,
+  LLMProvider,
+  ProviderConfig,
+  ProviderRequest,
+  StreamParser,
+} from './types';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 4096;
+
+type AnthropicBlock = Record<string, unknown>;
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicBlock[];
+}
+
+/** Anthropic stop_reason → OpenAI finish_reason */
+function mapStopReason(reason: string | null | undefined): string {
+  switch (reason) {
+    case 'tool_use': return 'tool_calls';
+    case 'max_tokens': return 'length';
+    case 'end_turn':
+    case 'stop_sequence':
+    case undefined:
+    case null:
+      return 'stop';
+    default: return reason;
+  }
+}
+
+/** Content blocks for a message; the API rejects empty and whitespace-only text blocks, so those are left out */
+function contentBlocks(content: MessageContent): AnthropicBlock[] {
+  if (typeof content === 'string') return content.trim() ? [{ type: 'text', text: content }] : [];
+  return content
+    .filter(part => part.type !== 'text' || part.text.trim())
+    .map(part =>
+      part.type === 'text'
+        ? { type: 'text', text: part.text }
+        : { type: 'image', source: { type: 'base64', media_type: part.mimeType, data: part.data } }
+    );
+}
+
+function parseArguments(args: string): unknown {
+  if (!args) return {};
+  try {
+    return JSON.parse(args);
+  } catch {
+    return {};
+  }
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+
+  constructor(private config: ProviderConfig) {}
+
+  buildChatRequest(messages: LLMMessage[], options: ChatRequestOptions): ProviderRequest {
+    const system = messages
+      .filter(m => m.role === 'system')
+      .map(m => contentToText(m.content))
+      .join('\n\n');
+
+    const body: Record<string, unknown> = {
+      model: this.config.modelName,
+      messages: this.serializeMessages(messages),
+      max_tokens: options.maxTokens || DEFAULT_MAX_TOKENS,
+      temperature: Math.min(1, options.temperature ?? 0.7),
+    };
+
+    if (system) {
+      body.system = system;
+    }
+    if (options.stream) {
+      body.stream = true;
+    }
+    if (options.tools && options.tools.length > 0) {
+      body.tools = options.tools.map(t => ({
+        name: t.function.name,
+        description: t.function.description,
+        input_schema: t.function.parameters,
+      }));
+    }
+
+    return { url: this.endpoint('/messages'), headers: this.headers(), body };
+  }
+
+  parseChatResponse(data: any): LLMResponse {
+    const blocks: any[] = data.content;
+    if (!Array.isArray(blocks)) {
+      throw new Error('API returned empty response');
+    }
+
+    let text = '';
+    let reasoning = '';
+    const toolCalls: ToolCall[] = [];
+    for (const block of blocks) {
+      if (block.type === 'text') {
+        text += block.text;
+      } else if (block.type === 'thinking') {
+        reasoning += block.thinking || '';
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({
+          id: block.id,
+          type: 'function',
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+        });
+      }
+    }
+
+    return {
+      content: text || null,
+      ...(reasoning ? { reasoning } : {}),
+      tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+      finish_reason: mapStopReason(data.stop_reason),
+      usage: this.parseUsage(data),
+    };
+  }
+
+  parseUsage(data: any): LLMUsage | undefined {
+    if (!data?.usage) return undefined;
+    return {
+      prompt_tokens: data.usage.input_tokens || 0,
+      completion_tokens: data.usage.output_tokens || 0,
+    };
+  }
+
+  createStreamParser(onDelta: (delta: LLMStreamDelta) => void): StreamParser {
+    let fullContent = '';
+    let fullReasoning = '';
+    let finishReason = '';
+    const usage: LLMUsage = { prompt_tokens: 0, completion_tokens: 0 };
+    // Anthropic indexes all content blocks; tool calls get their own dense index
+    const toolIndexByBlock: Map<number, number> = new Map();
+    const toolCalls: Array<{ id: string; name: string; arguments: string }> = [];
+
+    return {
+      push: (event) => {
+        switch (event.type) {
+          case 'message_start':
+            usage.prompt_tokens = event.message?.usage?.input_tokens || 0;
+            usage.completion_tokens = event.message?.usage?.output_tokens || 0;
+            break;
+
+          case 'content_block_start': {
+            const block = event.content_block;
+            if (block?.type === 'tool_use') {
+              const toolIndex = toolCalls.length;
+              toolIndexByBlock.set(event.index, toolIndex);
+              toolCalls.push({ id: block.id, name: block.name, arguments: '' });
+              onDelta({
+                tool_calls: [{
+                  index: toolIndex,
+                  id: block.id,
+                  type: 'function',
+                  function: { name: block.name, arguments: '' },
+                }],
+              });
+            } else if (block?.type === 'text' && block.text) {
+              fullContent += block.text;
+              onDelta({ content: block.text });
+            } else if (block?.type === 'thinking' && block.thinking) {
+              fullReasoning += block.thinking;
+              onDelta({ reasoning: block.thinking });
+            }
+            break;
+          }
+
+          case 'content_block_delta': {
+            const delta = event.delta;
+            if (delta?.type === 'text_delta' && delta.text) {
+              fullContent += delta.text;
+              onDelta({ content: delta.text });
+            } else if (delta?.type === 'thinking_delta' && delta.thinking) {
+              fullReasoning += delta.thinking;
+              onDelta({ reasoning: delta.thinking });
+            } else if (delta?.type === 'input_json_delta') {
+              const toolIndex = toolIndexByBlock.get(event.index);
+              if (toolIndex === undefined) break;
+              toolCalls[toolIndex].arguments += delta.partial_json || '';
+              onDelta({
+                tool_calls: [{ index: toolIndex, function: { arguments: delta.partial_json || '' } }],
+              });
+            }
+            break;
+          }
+
+          case 'message_delta':
+            if (event.delta?.stop_reason) {
+              finishReason = mapStopReason(event.delta.stop_reason);
+            }
+            // output_tokens here is cumulative for the message
+            if (event.usage?.output_tokens !== undefined) {
+              usage.completion_tokens = event.usage.output_tokens;
+            }
+            break;
+
+          case 'error':
+            throw new Error(`API stream error: ${event.error?.message || 'unknown error'}`);
+        }
+      },
+
+      finish: () => ({
+        content: fullContent || null,
+        ...(fullReasoning ? { reasoning: fullReasoning } : {}),
+        tool_calls: toolCalls.length > 0
+          ? toolCalls.map(tc => ({
+            id: tc.id,
+            type: 'function' as const,
+            function: { name: tc.name, arguments: tc.arguments || '{}' },
+          }))
+          : undefined,
+        finish_reason: finishReason || 'stop',
+        usage,
+      }),
+    };
+  }
+
+  buildEmbeddingRequest(): ProviderRequest {
+    throw new Error('Anthropic does not provide an embeddings API. Configure an OpenAI-compatible endpoint for embeddings.');
+  }
+
+  parseEmbeddingResponse(): Embedding[] {
+    return [];
+  }
+
+  private endpoint(path: string): string {
+    return this.config.baseUrl.replace(/\/+$/, '') + path;
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': this.config.apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+      // Obsidian's renderer is a browser context; streaming uses fetch directly
+      'anthropic-dangerous-direct-browser-access': 'true',
+    };
+  }
+
+  /**
+   * Convert messages to Anthropic turns. Consecutive messages with the same
+   * role are merged, since the API requires user/assistant alternation.
+   * Empty turns (e.g. an aborted reply) are dropped, which merges their neighbours.
+   */
+  private serializeMessages(messages: LLMMessage[]): AnthropicMessage[] {
+    const result: AnthropicMessage[] = [];
+
+    const pushBlocks = (role: 'user' | 'assistant', blocks: AnthropicBlock[]) => {
+      if (blocks.length === 0) return;
+      const last = result[result.length - 1];
+      if (last && last.role === role) {
+        last.content.push(...blocks);
+      } else {
+        result.push({ role, content: blocks });
+      }
+    };
+
+    for (const msg of messages) {
+      switch (msg.role) {
+        case 'system':
+          break;
+
+        case 'user':
+          pushBlocks('user', contentBlocks(msg.content));
+          break;
+
+        case 'assistant': {
+          const blocks: AnthropicBlock[] = contentBlocks(msg.content);
+          for (const tc of msg.tool_calls || []) {
+            blocks.push({
+              type: 'tool_use',
+              id: tc.id,
+              name: tc.function.name,
+              input: parseArguments(tc.function.arguments),
+            });
+          }
+          pushBlocks('assistant', blocks);
+          break;
+        }
+
+        case 'tool':
+          pushBlocks('user', [{
+            type: 'tool_result',
+            tool_use_id: msg.tool_call_id,
+            content: typeof msg.content === 'string' ? msg.content : contentBlocks(msg.content),
+          }]);
+          break;
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * LLM provider implementations
+ */
+
+export * from './types';
+export { OpenAIProvider } from './openaiProvider';
+export { AnthropicProvider } from './anthropicProvider';
+export { ScriptedProvider, FixtureStore, parseFixtureFile } from './scriptedProvider';
+export type { ScriptedFixture, FixtureFile, RecordedExchange } from './scriptedProvider';
+
+import type { LLMProvider, LLMProviderType, ProviderConfig } from './types';
+import { OpenAIProvider } from './openaiProvider';
+import { AnthropicProvider } from './anthropicProvider';
+import { FixtureStore, ScriptedProvider } from './scriptedProvider';
+
+/**
+ * Create the provider for a wire format
+ */
+export function createProvider(type: LLMProviderType | undefined, config: ProviderConfig): LLMProvider {
+  switch (type) {
+    case 'anthropic':
+      return new AnthropicProvider(config);
+    case 'scripted':
+      return new ScriptedProvider(config, config.fixtures || new FixtureStore());
+    case 'openai':
+    default:
+      return new OpenAIProvider(config);
+  }
+}
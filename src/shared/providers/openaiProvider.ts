@@ -0,0 +1,244 @@
+/**
+ * OpenAI-compatible provider (`/chat/completions`, `/embeddings`).
+ * Also covers DeepSeek, Qwen, Ollama, OpenRouter and other compatible endpoints.
+ *
+ * Reasoning arrives as `reasoning_content` (DeepSeek, Qwen, SiliconFlow) or
+ * `reasoning` (OpenRouter, Ollama) and is surfaced as LLMStreamDelta.reasoning.
+ *
+ * Image parts are sent as `image_url` data URLs. Tool messages only accept
+ * text, so images returned by tools follow the tool results in a user message.
+ */
+
+import { contentToText, getImageParts } from '../messageContent';
+import type { ContentPart, LLMMessage, LLMResponse, LLMStreamDelta, LLMUsage, ToolCall } from '../types';
+import type {
+  ChatRequestOptions,
+  Embedding,
+  EmbeddingResponse,
+  LLMProvider,
+  ProviderConfig,
+  ProviderRequest,
+  StreamParser,
+} from './types';
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+
+  constructor(private config: ProviderConfig) {}
+
+  buildChatRequest(messages: LLMMessage[], options: ChatRequestOptions): ProviderRequest {
+    const body: Record<string, unknown> = {
+      model: this.config.modelName,
+      messages: this.serializeMessages(messages),
+      temperature: options.temperature ?? 0.7,
+    };
+
+    if (options.stream) {
+      body.stream = true;
+      // Ask for a final usage chunk so streamed calls can be accounted
+      body.stream_options = { include_usage: true };
+    }
+    if (options.tools && options.tools.length > 0) {
+      body.tools = options.tools;
+    }
+    if (options.maxTokens) {
+      body.max_tokens = options.maxTokens;
+    }
+    if (options.responseFormat?.type === 'json_schema') {
+      body.response_format = {
+        type: 'json_schema',
+        json_schema: { name: options.responseFormat.name, schema: options.responseFormat.schema },
+      };
+    } else if (options.responseFormat) {
+      body.response_format = { type: 'json_object' };
+    }
+
+    return { url: this.endpoint('/chat/completions'), headers: this.headers(), body };
+  }
+
+  parseChatResponse(data: any): LLMResponse {
+    const choice = data.choices?.[0];
+    if (!choice) {
+      throw new Error('API returned empty response');
+    }
+
+    const reasoning = choice.message.reasoning_content || choice.message.reasoning;
+    return {
+      content: choice.message.content,
+      ...(typeof reasoning === 'string' && reasoning ? { reasoning } : {}),
+      tool_calls: choice.message.tool_calls,
+      finish_reason: choice.finish_reason,
+      usage: this.parseUsage(data),
+    };
+  }
+
+  parseUsage(data: any): LLMUsage | undefined {
+    if (!data?.usage) return undefined;
+    return {
+      prompt_tokens: data.usage.prompt_tokens || 0,
+      completion_tokens: data.usage.completion_tokens || 0,
+    };
+  }
+
+  createStreamParser(onDelta: (delta: LLMStreamDelta) => void): StreamParser {
+    let fullContent = '';
+    let fullReasoning = '';
+    const toolCallAccumulator: Map<number, { id: string; name: string; arguments: string }> = new Map();
+    let finishReason = '';
+    let usage: LLMUsage | undefined;
+
+    return {
+      push: (json) => {
+        // The usage chunk arrives last, with an empty choices array
+        if (json.usage) usage = this.parseUsage(json);
+
+        const choice = json.choices?.[0];
+        if (!choice) return;
+
+        if (choice.finish_reason) {
+          finishReason = choice.finish_reason;
+        }
+
+        const delta = choice.delta;
+        if (!delta) return;
+
+        const reasoning = delta.reasoning_content || delta.reasoning;
+        if (typeof reasoning === 'string' && reasoning) {
+          fullReasoning += reasoning;
+          onDelta({ reasoning });
+        }
+
+        // Handle content
+        if (delta.content) {
+          fullContent += delta.content;
+          onDelta({ content: delta.content });
+        }
+
+        // Handle tool calls
+        if (delta.tool_calls) {
+          for (const tc of delta.tool_calls) {
+            const idx = tc.index;
+            if (!toolCallAccumulator.has(idx)) {
+              toolCallAccumulator.set(idx, {
+                id: tc.id || '',
+                name: tc.function?.name || '',
+                arguments: '',
+              });
+            }
+            const acc = toolCallAccumulator.get(idx)!;
+            if (tc.id) acc.id = tc.id;
+            if (tc.function?.name) acc.name = tc.function.name;
+            if (tc.function?.arguments) acc.arguments += tc.function.arguments;
+          }
+          onDelta({ tool_calls: delta.tool_calls });
+        }
+      },
+
+      finish: () => {
+        // Build final tool_calls
+        let toolCalls: ToolCall[] | undefined;
+        if (toolCallAccumulator.size > 0) {
+          toolCalls = [];
+          for (const [, tc] of toolCallAccumulator) {
+            toolCalls.push({
+              id: tc.id,
+              type: 'function',
+              function: { name: tc.name, arguments: tc.arguments },
+            });
+          }
+        }
+
+        return {
+          content: fullContent || null,
+          ...(fullReasoning ? { reasoning: fullReasoning } : {}),
+          tool_calls: toolCalls,
+          finish_reason: finishReason || 'stop',
+          usage,
+        };
+      },
+    };
+  }
+
+  buildEmbeddingRequest(texts: string[], model: string): ProviderRequest {
+    return {
+      url: this.endpoint('/embeddings'),
+      headers: this.headers(),
+      body: { model, input: texts },
+    };
+  }
+
+  parseEmbeddingResponse(data: any, texts: string[]): Embedding[] {
+    const response = data as EmbeddingResponse;
+
+    // Sort by index to preserve order
+    const sortedData = response.data.sort((a, b) => a.index - b.index);
+
+    return sortedData.map((item, idx) => ({
+      vector: item.embedding,
+      text: texts[idx],
+      tokens: response.usage?.total_tokens ? Math.floor(response.usage.total_tokens / texts.length) : undefined,
+    }));
+  }
+
+  private endpoint(path: string): string {
+    return this.config.baseUrl.replace(/\/+$/, '') + path;
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${this.config.apiKey}`,
+    };
+  }
+
+  private serializeMessages(messages: LLMMessage[]): Record<string, unknown>[] {
+    const result: Record<string, unknown>[] = [];
+    let toolImages: ContentPart[] = [];
+
+    const flushToolImages = () => {
+      if (toolImages.length === 0) return;
+      result.push({
+        role: 'user',
+        content: this.serializeContent([{ type: 'text', text: 'Images returned by the tool calls above:' }, ...toolImages]),
+      });
+      toolImages = [];
+    };
+
+    for (const msg of messages) {
+      if (msg.role === 'tool') {
+        const images = getImageParts(msg.content);
+        if (images.length > 0) {
+          toolImages.push(...images);
+          result.push(this.serializeMessage({ ...msg, content: contentToText(msg.content) }));
+          continue;
+        }
+      } else {
+        // Images must come after the whole run of tool results
+        flushToolImages();
+      }
+      result.push(this.serializeMessage(msg));
+    }
+    flushToolImages();
+
+    return result;
+  }
+
+  private serializeMessage(msg: LLMMessage): Record<string, unknown> {
+    const result: Record<string, unknown> = {
+      role: msg.role,
+      content: this.serializeContent(msg.content),
+    };
+    if (msg.tool_call_id) result.tool_call_id = msg.tool_call_id;
+    if (msg.tool_calls) result.tool_calls = msg.tool_calls;
+    return result;
+  }
+
+  private serializeContent(content: LLMMessage['content']): unknown {
+    if (typeof content === 'string') return content;
+    return content.map(part =>
+      part.type === 'text'
+        ? { type: 'text', text: part.text }
+        : { type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}` } }
+    );
+  }
+}
@@ -0,0 +1,292 @@
+/**
+ * Scripted provider - replays fixtures instead of calling an endpoint,
+ * for offline demos and deterministic integration tests.
+ *
+ * Fixtures are OpenAI-shaped. Each request takes the first unused fixture
+ * whose `match` fits the last user/tool message (fixtures with `repeat`
+ * are never used up). A fixture either holds raw payloads (`response`,
+ * `stream` SSE chunks) or a shorthand (`reply`, `tool_calls`, `embeddings`)
+ * from which both streaming and non-streaming responses are synthesized.
+ */
+
+import type { LLMMessage, LLMResponse, LLMStreamDelta, LLMUsage } from '../types';
+import { LLMApiError } from '../retry';
+import { contentToText } from '../messageContent';
+import { estimateTokens } from '../tokenEstimator';
+import { OpenAIProvider } from './openaiProvider';
+import type {
+  ChatRequestOptions,
+  Embedding,
+  LLMProvider,
+  ProviderConfig,
+  ProviderRequest,
+  ProviderTransport,
+  StreamParser,
+} from './types';
+
+export interface ScriptedFixture {
+  /** Label used in error messages */
+  name?: string;
+  kind?: 'chat' | 'embeddings';
+  /** Substring, or /regex/flags, tested against the last user/tool message (omit = any) */
+  match?: string;
+  /** Reuse this fixture for every matching request */
+  repeat?: boolean;
+
+  /* Raw payloads (OpenAI wire format) */
+  response?: Record<string, any>;
+  stream?: Array<Record<string, any>>;
+
+  /* Shorthand */
+  reply?: string;
+  tool_calls?: Array<{ name: string; arguments: Record<string, unknown> | string }>;
+  embeddings?: number[][];
+}
+
+export interface FixtureFile {
+  fixtures: ScriptedFixture[];
+}
+
+/** What a live client saw, recorded as a new fixture */
+export type RecordedExchange =
+  | { kind: 'chat'; messages: LLMMessage[]; response: LLMResponse }
+  | { kind: 'embeddings'; texts: string[]; vectors: number[][] };
+
+/** Dimensions of the stand-in vectors returned when no embedding fixture matches */
+const FALLBACK_EMBEDDING_DIM = 64;
+
+/** Characters per synthesized stream chunk */
+const STREAM_CHUNK_CHARS = 24;
+
+/**
+ * In-memory fixture list with replay position and recording
+ */
+export class FixtureStore {
+  private fixtures: ScriptedFixture[];
+  private used = new Set<number>();
+  private onChange?: () => void;
+
+  /**
+   * @param file - parsed fixture file
+   * @param onChange - called after a recording, e.g. a debounced save
+   */
+  constructor(file?: FixtureFile, onChange?: () => void) {
+    this.fixtures = file?.fixtures || [];
+    this.onChange = onChange;
+  }
+
+  get size(): number {
+    return this.fixtures.length;
+  }
+
+  /**
+   * Take the next fixture for a request, or null if none is left
+   */
+  take(kind: 'chat' | 'embeddings', text: string): ScriptedFixture | null {
+    for (let i = 0; i < this.fixtures.length; i++) {
+      const fixture = this.fixtures[i];
+      if ((fixture.kind || 'chat') !== kind) continue;
+      if (this.used.has(i) || !matches(fixture.match, text)) continue;
+      if (!fixture.repeat) this.used.add(i);
+      return fixture;
+    }
+    return null;
+  }
+
+  /** Start replaying from the first fixture again */
+  rewind(): void {
+    this.used.clear();
+  }
+
+  record(exchange: RecordedExchange): void {
+    if (exchange.kind === 'embeddings') {
+      this.fixtures.push({
+        kind: 'embeddings',
+        match: exchange.texts[0]?.slice(0, 200),
+        embeddings: exchange.vectors,
+      });
+    } else {
+      const fixture: ScriptedFixture = { match: lastInputText(exchange.messages).slice(0, 200) };
+      if (exchange.response.content) fixture.reply = exchange.response.content;
+      if (exchange.response.tool_calls) {
+        fixture.tool_calls = exchange.response.tool_calls.map(tc => ({
+          name: tc.function.name,
+          arguments: tc.function.arguments,
+        }));
+      }
+      this.fixtures.push(fixture);
+    }
+    this.onChange?.();
+  }
+
+  toJSON(): FixtureFile {
+    return { fixtures: this.fixtures };
+  }
+}
+
+/**
+ * OpenAI wire format with an in-process transport
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly name = 'scripted' as const;
+  readonly transport: ProviderTransport;
+  private format: OpenAIProvider;
+  private callCounter = 0;
+
+  constructor(config: ProviderConfig, private fixtures: FixtureStore) {
+    this.format = new OpenAIProvider(config);
+    this.transport = {
+      post: async (request) => this.post(request),
+      stream: async (request, onPayload) => {
+        for (const payload of this.streamPayloads(request)) onPayload(payload);
+      },
+    };
+  }
+
+  buildChatRequest(messages: LLMMessage[], options: ChatRequestOptions): ProviderRequest {
+    return this.format.buildChatRequest(messages, options);
+  }
+
+  parseChatResponse(data: any): LLMResponse {
+    return this.format.parseChatResponse(data);
+  }
+
+  createStreamParser(onDelta: (delta: LLMStreamDelta) => void): StreamParser {
+    return this.format.createStreamParser(onDelta);
+  }
+
+  buildEmbeddingRequest(texts: string[], model: string): ProviderRequest {
+    return this.format.buildEmbeddingRequest(texts, model);
+  }
+
+  parseEmbeddingResponse(data: any, texts: string[]): Embedding[] {
+    return this.format.parseEmbeddingResponse(data, texts);
+  }
+
+  parseUsage(data: any): LLMUsage | undefined {
+    return this.format.parseUsage(data);
+  }
+
+  private post(request: ProviderRequest): Record<string, any> {
+    if (request.url.endsWith('/embeddings')) {
+      const texts = request.body.input as string[];
+      const fixture = this.fixtures.take('embeddings', texts[0] || '');
+      const vectors = texts.map((t, i) => fixture?.embeddings?.[i] || fallbackEmbedding(t));
+      return fixture?.response || {
+        data: vectors.map((embedding, index) => ({ embedding, index })),
+        model: request.body.model,
+        usage: { prompt_tokens: 0, total_tokens: texts.reduce((n, t) => n + estimateTokens(t), 0) },
+      };
+    }
+
+    const fixture = this.takeChatFixture(request);
+    if (fixture.response) return fixture.response;
+
+    const toolCalls = this.buildToolCalls(fixture);
+    return {
+      choices: [{
+        message: { role: 'assistant', content: fixture.reply ?? null, tool_calls: toolCalls },
+        finish_reason: toolCalls ? 'tool_calls' : 'stop',
+      }],
+      usage: this.estimateUsage(request, fixture),
+    };
+  }
+
+  private streamPayloads(request: ProviderRequest): Array<Record<string, any>> {
+    const fixture = this.takeChatFixture(request);
+    if (fixture.stream) return fixture.stream;
+
+    const payloads: Array<Record<string, any>> = [];
+    const reply = fixture.response?.choices?.[0]?.message?.content ?? fixture.reply ?? '';
+    for (let i = 0; i < reply.length; i += STREAM_CHUNK_CHARS) {
+      payloads.push({ choices: [{ delta: { content: reply.slice(i, i + STREAM_CHUNK_CHARS) } }] });
+    }
+
+    const toolCalls = fixture.response?.choices?.[0]?.message?.tool_calls ?? this.buildToolCalls(fixture);
+    (toolCalls || []).forEach((tc: any, index: number) => {
+      payloads.push({ choices: [{ delta: { tool_calls: [{ index, ...tc }] } }] });
+    });
+
+    payloads.push({ choices: [{ delta: {}, finish_reason: toolCalls?.length ? 'tool_calls' : 'stop' }] });
+    payloads.push({ choices: [], usage: fixture.response?.usage ?? this.estimateUsage(request, fixture) });
+    return payloads;
+  }
+
+  private takeChatFixture(request: ProviderRequest): ScriptedFixture {
+    const text = lastInputText(request.body.messages as LLMMessage[]);
+    const fixture = this.fixtures.take('chat', text);
+    if (!fixture) {
+      throw new LLMApiError(`Scripted provider: no fixture left for "${text.slice(0, 80)}"`, 404);
+    }
+    return fixture;
+  }
+
+  private buildToolCalls(fixture: ScriptedFixture) {
+    if (!fixture.tool_calls?.length) return undefined;
+    return fixture.tool_calls.map(tc => ({
+      id: `call_${++this.callCounter}`,
+      type: 'function' as const,
+      function: {
+        name: tc.name,
+        arguments: typeof tc.arguments === 'string' ? tc.arguments : JSON.stringify(tc.arguments),
+      },
+    }));
+  }
+
+  private estimateUsage(request: ProviderRequest, fixture: ScriptedFixture) {
+    return {
+      prompt_tokens: estimateTokens(JSON.stringify(request.body.messages)),
+      completion_tokens: estimateTokens((fixture.reply || '') + JSON.stringify(fixture.tool_calls || [])),
+    };
+  }
+}
+
+/**
+ * Parse a fixture file; throws with a readable message on bad input
+ */
+export function parseFixtureFile(json: string): FixtureFile {
+  const data = JSON.parse(json);
+  const fixtures = Array.isArray(data) ? data : data?.fixtures;
+  if (!Array.isArray(fixtures)) {
+    throw new Error('Fixture file must be an array or an object with a "fixtures" array');
+  }
+  return { fixtures };
+}
+
+function matches(pattern: string | undefined, text: string): boolean {
+  if (!pattern) return true;
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    try {
+      return new RegExp(regex[1], regex[2]).test(text);
+    } catch {
+      return false;
+    }
+  }
+  return text.includes(pattern);
+}
+
+/** The message a reply answers: the last user turn or tool result */
+function lastInputText(messages: LLMMessage[] | undefined): string {
+  for (let i = (messages?.length || 0) - 1; i >= 0; i--) {
+    const msg = messages![i];
+    if (msg.role === 'user' || msg.role === 'tool') return contentToText(msg.content);
+  }
+  return '';
+}
+
+/**
+ * Deterministic unit vector from character trigrams, so similar texts
+ * land close together in offline semantic-search demos
+ */
+function fallbackEmbedding(text: string): number[] {
+  const vector = new Array(FALLBACK_EMBEDDING_DIM).fill(0);
+  const normalized = text.toLowerCase();
+  for (let i = 0; i < normalized.length - 2; i++) {
+    let hash = 0;
+    for (let j = i; j < i + 3; j++) hash = (hash * 31 + normalized.charCodeAt(j)) >>> 0;
+    vector[hash % FALLBACK_EMBEDDING_DIM] += 1;
+  }
+  const norm = Math.sqrt(vector.reduce((s, v) => s + v * v, 0)) || 1;
+  return vector.map(v => v / norm);
+}
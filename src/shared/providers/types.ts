@@ -0,0 +1,86 @@
+/**
+ * Provider abstraction - each provider translates between the plugin's
+ * OpenAI-shaped message types and its own wire format.
+ */
+
+import type { LLMMessage, LLMResponse, LLMStreamDelta, LLMUsage, ToolDefinition } from '../types';
+import type { ResponseFormat } from '../structuredOutput';
+import type { FixtureStore } from './scriptedProvider';
+
+export type LLMProviderType = 'openai' | 'anthropic' | 'scripted';
+
+/* ---- Embedding Types ---- */
+
+export interface Embedding {
+  vector: number[];
+  text: string;
+  tokens?: number;
+}
+
+export interface EmbeddingResponse {
+  data: Array<{
+    embedding: number[];
+    index: number;
+  }>;
+  model: string;
+  usage?: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+}
+
+/* ---- Requests ---- */
+
+export interface ProviderConfig {
+  baseUrl: string;
+  apiKey: string;
+  modelName: string;
+  /** Fixtures for the scripted provider */
+  fixtures?: FixtureStore;
+}
+
+export interface ChatRequestOptions {
+  temperature?: number;
+  tools?: ToolDefinition[];
+  maxTokens?: number;
+  stream?: boolean;
+  /** JSON reply mode; providers without native support ignore it */
+  responseFormat?: ResponseFormat;
+}
+
+/** A fully prepared HTTP request; the client owns transport, retries and rate limiting */
+export interface ProviderRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+/**
+ * Incremental parser for one streaming response.
+ * Receives each decoded SSE `data:` payload and emits normalized deltas.
+ */
+export interface StreamParser {
+  push(event: Record<string, any>): void;
+  finish(): LLMResponse;
+}
+
+/**
+ * In-process replacement for HTTP. Streaming delivers decoded SSE payloads.
+ */
+export interface ProviderTransport {
+  post(request: ProviderRequest): Promise<any>;
+  stream(request: ProviderRequest, onPayload: (payload: Record<string, any>) => void): Promise<void>;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderType;
+  /** Set by providers that do not talk HTTP (the client then skips retries and rate limits) */
+  readonly transport?: ProviderTransport;
+  buildChatRequest(messages: LLMMessage[], options: ChatRequestOptions): ProviderRequest;
+  parseChatResponse(data: any): LLMResponse;
+  createStreamParser(onDelta: (delta: LLMStreamDelta) => void): StreamParser;
+  buildEmbeddingRequest(texts: string[], model: string): ProviderRequest;
+  parseEmbeddingResponse(data: any, texts: string[]): Embedding[];
+  /** Extract token usage from a non-streaming response body (chat or embeddings) */
+  parseUsage(data: any): LLMUsage | undefined;
+}
@@ -0,0 +1,102 @@
+/**
+ * Token-bucket rate limiter shared by every LLMClient that talks to the same provider.
+ *
+ * Batch extraction creates one client per file, so the bucket lives in a
+ * module-level registry keyed by provider rather than on the client itself.
+ */
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private refillPerMs: number;
+  private capacity: number;
+
+  /**
+   * @param requestsPerMinute - sustained request rate; also used as the burst capacity
+   */
+  constructor(requestsPerMinute: number) {
+    this.capacity = requestsPerMinute;
+    this.refillPerMs = requestsPerMinute / 60000;
+    this.tokens = requestsPerMinute;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Change the rate without losing the tokens already accumulated
+   */
+  setRate(requestsPerMinute: number): void {
+    if (requestsPerMinute === this.capacity) return;
+    this.refill();
+    this.capacity = requestsPerMinute;
+    this.refillPerMs = requestsPerMinute / 60000;
+    this.tokens = Math.min(this.tokens, this.capacity);
+  }
+
+  /**
+   * Wait until a token is available, then consume it
+   */
+  async acquire(signal?: AbortSignal): Promise<void> {
+    while (true) {
+      if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      const waitMs = Math.ceil((1 - this.tokens) / this.refillPerMs);
+      await sleep(waitMs, signal);
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    if (elapsed <= 0) return;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerMs);
+    this.lastRefill = now;
+  }
+}
+
+/* ---- Shared Registry ---- */
+
+const buckets: Map<string, TokenBucket> = new Map();
+
+/**
+ * Get the shared bucket for a provider key (usually the normalized base URL).
+ * Returns null when rate limiting is disabled (requestsPerMinute <= 0).
+ */
+export function getRateLimiter(key: string, requestsPerMinute: number): TokenBucket | null {
+  if (!requestsPerMinute || requestsPerMinute <= 0) return null;
+
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = new TokenBucket(requestsPerMinute);
+    buckets.set(key, bucket);
+  } else {
+    bucket.setRate(requestsPerMinute);
+  }
+  return bucket;
+}
+
+/**
+ * Abortable sleep
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,221 @@
+/**
+ * Response Cache - content-addressed, disk-backed cache for deterministic
+ * LLM calls (completions and embeddings).
+ *
+ * Each entry is one JSON file named by the SHA-256 of its canonical key;
+ * an index tracks sizes and last use so the least recently used entries
+ * are evicted once the cache exceeds its size or entry limit.
+ */
+
+/** The subset of Obsidian's DataAdapter the cache needs */
+export interface CacheStorage {
+  exists(path: string): Promise<boolean>;
+  read(path: string): Promise<string>;
+  write(path: string, data: string): Promise<void>;
+  remove(path: string): Promise<void>;
+  mkdir(path: string): Promise<void>;
+}
+
+export interface ResponseCacheOptions {
+  /** Folder for entry files and the index (e.g. the plugin folder + "/cache") */
+  dir: string;
+  maxBytes: number;
+  maxEntries?: number;
+}
+
+interface CacheIndexEntry {
+  size: number;
+  createdAt: number;
+  lastUsed: number;
+}
+
+interface CacheIndex {
+  version: 1;
+  entries: Record<string, CacheIndexEntry>;
+}
+
+const INDEX_FILE = 'index.json';
+const DEFAULT_MAX_ENTRIES = 5000;
+
+export class ResponseCache {
+  private index: CacheIndex | null = null;
+  private loading: Promise<CacheIndex> | null = null;
+  /** Serializes index writes and evictions */
+  private writeChain: Promise<void> = Promise.resolve();
+  /** A hit updated lastUsed and an index save is already queued */
+  private touched = false;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private storage: CacheStorage, private options: ResponseCacheOptions) {}
+
+  /**
+   * Stable key for a request: SHA-256 of its canonical JSON
+   */
+  async key(parts: Record<string, unknown>): Promise<string> {
+    const data = new TextEncoder().encode(canonicalJson(parts));
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const index = await this.loadIndex();
+    const entry = index.entries[key];
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    try {
+      const value = JSON.parse(await this.storage.read(this.entryPath(key))) as T;
+      entry.lastUsed = Date.now();
+      this.hits++;
+      this.saveTouched();
+      return value;
+    } catch {
+      // Entry file vanished or is corrupt: forget it
+      delete index.entries[key];
+      this.misses++;
+      return undefined;
+    }
+  }
+
+  set(key: string, value: unknown): Promise<void> {
+    const data = JSON.stringify(value);
+    return this.enqueue(async () => {
+      const index = await this.loadIndex();
+      if (data.length > this.options.maxBytes) return;
+
+      await this.storage.write(this.entryPath(key), data);
+      const now = Date.now();
+      index.entries[key] = { size: data.length, createdAt: now, lastUsed: now };
+      await this.evict(index);
+      await this.saveIndex(index);
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.enqueue(async () => {
+      const index = await this.loadIndex();
+      for (const key of Object.keys(index.entries)) {
+        await this.removeEntry(key);
+      }
+      index.entries = {};
+      this.hits = 0;
+      this.misses = 0;
+      await this.saveIndex(index);
+    });
+  }
+
+  setMaxBytes(maxBytes: number): void {
+    this.options.maxBytes = maxBytes;
+  }
+
+  async getStats(): Promise<{ entries: number; bytes: number; hits: number; misses: number }> {
+    const index = await this.loadIndex();
+    const values = Object.values(index.entries);
+    return {
+      entries: values.length,
+      bytes: values.reduce((sum, e) => sum + e.size, 0),
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+
+  /* ---- Internals ---- */
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.writeChain.then(task);
+    // Keep the chain alive after a failed write
+    this.writeChain = run.catch((e) => console.warn('Obsidian Palace: response cache write failed:', e));
+    return run;
+  }
+
+  /**
+   * Persist lastUsed after hits, so eviction order survives a restart.
+   * Hits arriving while a save is queued share it.
+   */
+  private saveTouched(): void {
+    if (this.touched) return;
+    this.touched = true;
+    this.enqueue(async () => {
+      this.touched = false;
+      await this.saveIndex(await this.loadIndex());
+    }).catch(() => {});
+  }
+
+  /**
+   * Drop least recently used entries until both limits hold
+   */
+  private async evict(index: CacheIndex): Promise<void> {
+    const maxEntries = this.options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    const keys = Object.keys(index.entries);
+    let total = keys.reduce((sum, k) => sum + index.entries[k].size, 0);
+    if (total <= this.options.maxBytes && keys.length <= maxEntries) return;
+
+    keys.sort((a, b) => index.entries[a].lastUsed - index.entries[b].lastUsed);
+    let count = keys.length;
+    for (const key of keys) {
+      if (total <= this.options.maxBytes && count <= maxEntries) break;
+      total -= index.entries[key].size;
+      count--;
+      delete index.entries[key];
+      await this.removeEntry(key);
+    }
+  }
+
+  private async removeEntry(key: string): Promise<void> {
+    try {
+      await this.storage.remove(this.entryPath(key));
+    } catch {
+      // already gone
+    }
+  }
+
+  private loadIndex(): Promise<CacheIndex> {
+    if (this.index) return Promise.resolve(this.index);
+    if (!this.loading) {
+      this.loading = (async () => {
+        let index: CacheIndex = { version: 1, entries: {} };
+        try {
+          if (!(await this.storage.exists(this.options.dir))) {
+            await this.storage.mkdir(this.options.dir);
+          }
+          const path = `${this.options.dir}/${INDEX_FILE}`;
+          if (await this.storage.exists(path)) {
+            const parsed = JSON.parse(await this.storage.read(path));
+            if (parsed?.version === 1 && parsed.entries) index = parsed;
+          }
+        } catch (e) {
+          console.warn('Obsidian Palace: response cache index unreadable, starting empty:', e);
+        }
+        this.index = index;
+        return index;
+      })();
+    }
+    return this.loading;
+  }
+
+  private async saveIndex(index: CacheIndex): Promise<void> {
+    await this.storage.write(`${this.options.dir}/${INDEX_FILE}`, JSON.stringify(index));
+  }
+
+  private entryPath(key: string): string {
+    return `${this.options.dir}/${key}.json`;
+  }
+}
+
+/**
+ * JSON with object keys sorted, so equal requests hash equally
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(v => canonicalJson(v === undefined ? null : v)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    const keys = Object.keys(obj).filter(k => obj[k] !== undefined).sort();
+    return `{${keys.map(k => `${JSON.stringify(k)}:${canonicalJson(obj[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,114 @@
+/**
+ * Retry policy with exponential backoff and jitter for LLM API calls.
+ */
+
+import { sleep } from './rateLimiter';
+
+export interface RetryPolicy {
+  /** Retries after the first attempt (0 disables retrying) */
+  maxRetries: number;
+  /** Base delay for exponential backoff */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay */
+  maxDelayMs: number;
+  /** HTTP status codes that are worth retrying */
+  retryOnStatus: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  retryOnStatus: [408, 409, 425, 429, 500, 502, 503, 504, 529],
+};
+
+/**
+ * Error thrown for non-success API responses, carrying what the retry loop needs
+ */
+export class LLMApiError extends Error {
+  readonly status: number;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'LLMApiError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) return Math.max(0, date - Date.now());
+
+  return undefined;
+}
+
+/**
+ * Read Retry-After from either a fetch Headers object or requestUrl's plain record
+ */
+export function getRetryAfterMs(headers: Headers | Record<string, string> | undefined): number | undefined {
+  if (!headers) return undefined;
+  if (typeof (headers as Headers).get === 'function') {
+    return parseRetryAfter((headers as Headers).get('retry-after'));
+  }
+  const record = headers as Record<string, string>;
+  const key = Object.keys(record).find(k => k.toLowerCase() === 'retry-after');
+  return key ? parseRetryAfter(record[key]) : undefined;
+}
+
+function isRetryable(error: unknown, policy: RetryPolicy): boolean {
+  if (error instanceof DOMException && error.name === 'AbortError') return false;
+  if (error instanceof LLMApiError) return policy.retryOnStatus.includes(error.status);
+  // Network failures (fetch throws TypeError, requestUrl throws plain errors without status)
+  return error instanceof TypeError || (error instanceof Error && /network|timeout|ECONN|ETIMEDOUT|socket/i.test(error.message));
+}
+
+/**
+ * Compute the wait before the next attempt: honour Retry-After when present,
+ * otherwise exponential backoff with full jitter.
+ */
+function computeDelay(error: unknown, attempt: number, policy: RetryPolicy): number {
+  if (error instanceof LLMApiError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, policy.maxDelayMs * 2);
+  }
+  const exp = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt));
+  return Math.round(Math.random() * exp);
+}
+
+/**
+ * Run an async operation with retries.
+ * @param fn - the operation; receives the zero-based attempt number
+ * @param onRetry - optional hook called before each wait (for logging / UI)
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  signal?: AbortSignal,
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void
+): Promise<T> {
+  let attempt = 0;
+
+  while (true) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= policy.maxRetries || !isRetryable(error, policy)) {
+        throw error;
+      }
+
+      const delay = computeDelay(error, attempt, policy);
+      onRetry?.(error, attempt + 1, delay);
+      await sleep(delay, signal);
+      attempt++;
+    }
+  }
+}
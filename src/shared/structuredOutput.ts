@@ -0,0 +1,134 @@
+/**
+ * Structured Output - JSON schema subset, reply parsing and validation
+ * for LLM calls that must return machine-readable JSON.
+ *
+ * Supported keywords: type, properties, required, items, enum, minimum, maximum.
+ * Unknown properties are tolerated so a chatty model does not fail validation.
+ */
+
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: Array<string | number | boolean>;
+  minimum?: number;
+  maximum?: number;
+}
+
+/** Requested reply format; providers without support ignore it */
+export type ResponseFormat =
+  | { type: 'json_object' }
+  | { type: 'json_schema'; name: string; schema: JsonSchema };
+
+/**
+ * Thrown when a reply is still not valid JSON for the schema after repairs
+ */
+export class StructuredOutputError extends Error {
+  readonly errors: string[];
+  readonly raw: string;
+
+  constructor(message: string, errors: string[], raw: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    this.errors = errors;
+    this.raw = raw;
+  }
+}
+
+/**
+ * Parse JSON from a model reply, tolerating code fences and prose around
+ * the outermost object or array. Throws SyntaxError when nothing parses.
+ */
+export function parseJsonReply(text: string): unknown {
+  let str = text.trim();
+
+  const fence = str.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
+  if (fence) str = fence[1].trim();
+
+  try {
+    return JSON.parse(str);
+  } catch (e) {
+    // Fall back to the span between the first opening and last closing bracket
+    const start = str.search(/[[{]/);
+    const end = Math.max(str.lastIndexOf('}'), str.lastIndexOf(']'));
+    if (start >= 0 && end > start) {
+      return JSON.parse(str.slice(start, end + 1));
+    }
+    throw e;
+  }
+}
+
+/**
+ * Validate a value against a schema; returns human-readable errors (empty = valid)
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    errors.push(`${path}: expected ${schema.type}, got ${describeType(value)}`);
+    return errors;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+    errors.push(`${path}: must be one of ${schema.enum.join(' | ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => {
+      errors.push(...validateJson(item, schema.items!, `${path}[${i}]`));
+    });
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required || []) {
+      if (!(key in value)) errors.push(`${path}.${key}: is required`);
+    }
+    for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+      if (key in value) errors.push(...validateJson(value[key], propSchema, `${path}.${key}`));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Follow-up message asking the model to fix its previous reply
+ */
+export function buildRepairPrompt(errors: string[]): string {
+  const list = errors.slice(0, 20).map(e => `- ${e}`).join('\n');
+  const more = errors.length > 20 ? `\n- ... and ${errors.length - 20} more` : '';
+  return `Your previous reply was not valid JSON for the required format:\n${list}${more}\n\n`
+    + 'Reply again with ONLY the corrected JSON, no explanations or code fences.';
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'object': return isPlainObject(value);
+    case 'array': return Array.isArray(value);
+    case 'integer': return typeof value === 'number' && Number.isInteger(value);
+    case 'null': return value === null;
+    default: return typeof value === type;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
@@ -0,0 +1,75 @@
+/**
+ * Text Diff - minimal line diff for previews (LCS based).
+ *
+ * Inputs beyond MAX_CELLS fall back to a trimmed replace-all diff
+ * so a huge note cannot stall the UI.
+ */
+
+export interface DiffLine {
+  type: 'same' | 'add' | 'remove';
+  text: string;
+}
+
+const MAX_CELLS = 4000000;
+
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  // Common prefix and suffix never need the LCS table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const result: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same' as const, text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_CELLS) {
+    result.push(...midA.map(text => ({ type: 'remove' as const, text })));
+    result.push(...midB.map(text => ({ type: 'add' as const, text })));
+  } else {
+    result.push(...lcsDiff(midA, midB));
+  }
+
+  result.push(...a.slice(endA).map(text => ({ type: 'same' as const, text })));
+  return result;
+}
+
+function lcsDiff(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: Uint32Array[] = [];
+  for (let i = 0; i <= n; i++) lengths.push(new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: 'remove', text: a[i++] });
+    } else {
+      result.push({ type: 'add', text: b[j++] });
+    }
+  }
+  while (i < n) result.push({ type: 'remove', text: a[i++] });
+  while (j < m) result.push({ type: 'add', text: b[j++] });
+  return result;
+}
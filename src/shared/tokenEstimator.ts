@@ -0,0 +1,104 @@
+/**
+ * Token Estimator - cheap, tokenizer-free token counts and context window sizes.
+ *
+ * Estimates are deliberately a little pessimistic: CJK characters count as
+ * roughly one token each, other text by a per-model chars-per-token ratio.
+ */
+
+import type { LLMMessage, MessageContent, ToolDefinition } from './types';
+
+/** Known context windows, matched by longest model-name prefix */
+const CONTEXT_WINDOWS: Array<{ prefix: string; tokens: number }> = [
+  { prefix: 'gpt-4.1', tokens: 1000000 },
+  { prefix: 'gpt-4o', tokens: 128000 },
+  { prefix: 'gpt-4-turbo', tokens: 128000 },
+  { prefix: 'gpt-4', tokens: 8192 },
+  { prefix: 'gpt-3.5', tokens: 16385 },
+  { prefix: 'gpt-5', tokens: 400000 },
+  { prefix: 'o1', tokens: 200000 },
+  { prefix: 'o3', tokens: 200000 },
+  { prefix: 'o4', tokens: 200000 },
+  { prefix: 'claude', tokens: 200000 },
+  { prefix: 'deepseek', tokens: 64000 },
+  { prefix: 'qwen', tokens: 128000 },
+  { prefix: 'moonshot-v1-8k', tokens: 8000 },
+  { prefix: 'moonshot-v1-32k', tokens: 32000 },
+  { prefix: 'moonshot-v1-128k', tokens: 128000 },
+  { prefix: 'gemini', tokens: 1000000 },
+  { prefix: 'llama', tokens: 128000 },
+];
+
+const DEFAULT_CONTEXT_WINDOW = 32000;
+
+/** Per-message framing overhead (role, separators) */
+const MESSAGE_OVERHEAD = 4;
+
+/** Flat charge per image; providers bill by resolution, roughly 800-1600 tokens for typical sizes */
+const IMAGE_TOKENS = 1000;
+
+const CJK_REGEX = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+
+/**
+ * Context window for a model; an explicit override (> 0) wins
+ */
+export function getContextWindow(model: string, override?: number): number {
+  if (override && override > 0) return override;
+
+  const name = model.toLowerCase().replace(/^.*\//, '');  // strip "vendor/" prefixes (OpenRouter etc.)
+  let best: { prefix: string; tokens: number } | undefined;
+  for (const entry of CONTEXT_WINDOWS) {
+    if (name.startsWith(entry.prefix) && (!best || entry.prefix.length > best.prefix.length)) {
+      best = entry;
+    }
+  }
+  return best?.tokens ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+function charsPerToken(model?: string): number {
+  const name = (model || '').toLowerCase();
+  if (name.includes('claude')) return 3.5;
+  return 4;
+}
+
+export function estimateTokens(text: string, model?: string): number {
+  if (!text) return 0;
+  const cjk = (text.match(CJK_REGEX) || []).length;
+  const rest = text.length - cjk;
+  return Math.ceil(cjk + rest / charsPerToken(model));
+}
+
+export function estimateContentTokens(content: MessageContent, model?: string): number {
+  if (typeof content === 'string') return estimateTokens(content, model);
+  return content.reduce(
+    (sum, part) => sum + (part.type === 'text' ? estimateTokens(part.text, model) : IMAGE_TOKENS),
+    0
+  );
+}
+
+export function estimateMessageTokens(message: LLMMessage, model?: string): number {
+  let tokens = MESSAGE_OVERHEAD + estimateContentTokens(message.content, model);
+  for (const tc of message.tool_calls || []) {
+    tokens += estimateTokens(tc.function.name + tc.function.arguments, model);
+  }
+  return tokens;
+}
+
+export function estimateMessagesTokens(messages: LLMMessage[], model?: string): number {
+  return messages.reduce((sum, m) => sum + estimateMessageTokens(m, model), 0);
+}
+
+export function estimateToolsTokens(tools: ToolDefinition[], model?: string): number {
+  return tools.length > 0 ? estimateTokens(JSON.stringify(tools), model) : 0;
+}
+
+/**
+ * Cut text to roughly maxTokens, keeping the head and appending a marker
+ */
+export function truncateToTokens(text: string, maxTokens: number, model?: string, marker = '\n\n[... truncated to fit the context window ...]'): string {
+  const total = estimateTokens(text, model);
+  if (total <= maxTokens) return text;
+
+  // Scale by the observed density so CJK-heavy text is cut proportionally
+  const keepChars = Math.max(0, Math.floor(text.length * (maxTokens / total)));
+  return text.slice(0, keepChars) + marker;
+}
@@ -5,8 +5,12 @@
 /* ---- Chat Sessions ---- */
 
 export interface ChatMessage {
-  role: 'user' | 'assistant';
+  role: 'user' | 'assistant' | 'tool';
   content: string;
+  turnId?: string;        // agent turn, links the reply to its change journal entries
+  tool_calls?: ToolCall[];  // assistant: tools requested in this step
+  tool_call_id?: string;    // tool: the call this result answers
+  images?: string[];        // user: attached vault image paths
 }
 
 export interface ChatSession {
@@ -14,15 +18,34 @@ export interface ChatSession {
   title: string;
   messages: ChatMessage[];
   docPath?: string;       // selected document path
+  summary?: string;           // LLM summary of compacted older messages
+  summarizedCount?: number;   // number of leading messages covered by summary
   createdAt: number;
   updatedAt: number;
 }
 
 /* ---- LLM ---- */
 
+export interface TextPart {
+  type: 'text';
+  text: string;
+}
+
+export interface ImagePart {
+  type: 'image';
+  mimeType: string;       // image/png | image/jpeg | image/gif | image/webp
+  data: string;           // base64, no data: prefix
+  name?: string;          // vault path or file name, for placeholders and traces
+}
+
+export type ContentPart = TextPart | ImagePart;
+
+/** Plain text, or text and image parts for vision models */
+export type MessageContent = string | ContentPart[];
+
 export interface LLMMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
-  content: string;
+  content: MessageContent;
   tool_call_id?: string;
   tool_calls?: ToolCall[];
 }
@@ -47,6 +70,8 @@ export interface ToolDefinition {
 
 export interface LLMStreamDelta {
   content?: string;
+  /** Reasoning ("thinking") text, shown to the user but never sent back */
+  reasoning?: string;
   tool_calls?: Array<{
     index: number;
     id?: string;
@@ -58,19 +83,150 @@ export interface LLMStreamDelta {
   }>;
 }
 
+export interface LLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
 export interface LLMResponse {
   content: string | null;
+  reasoning?: string;
   tool_calls?: ToolCall[];
   finish_reason: string;
+  usage?: LLMUsage;
+}
+
+/* ---- Usage Ledger ---- */
+
+export interface UsageEntry {
+  feature: string;        // chat | extraction | translation | embeddings
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  requests: number;
+  lastUsed: number;
+}
+
+export interface UsageLedgerData {
+  entries: UsageEntry[];
+  since: number;          // timestamp of first record / last reset
 }
 
 /* ---- Agent ---- */
 
+export type ToolPermission = 'allow' | 'ask' | 'deny';
+
+/** What an approval card shows for a pending tool call */
+export interface ToolPreview {
+  /** Short description, e.g. "Overwrite notes/todo.md" */
+  title: string;
+  kind: 'diff' | 'code';
+  /** Current content (diff previews only; empty for new files) */
+  before?: string;
+  /** Proposed content or code */
+  after: string;
+  /** Code language for syntax hints */
+  language?: string;
+  /** String argument the user may edit before approving */
+  editableArg?: string;
+}
+
+export interface ToolApprovalRequest {
+  toolName: string;
+  args: Record<string, unknown>;
+  preview?: ToolPreview;
+}
+
+export interface ToolApprovalDecision {
+  approved: boolean;
+  /** Replacement arguments when the user edited the call */
+  args?: Record<string, unknown>;
+}
+
 export interface AgentTool {
   name: string;
   description: string;
   parameters: Record<string, unknown>;
-  execute: (args: Record<string, unknown>) => Promise<string>;
+  /** Text result, or content parts for tools that return images. Throw to report a failure. */
+  execute: (args: Record<string, unknown>) => Promise<MessageContent>;
+  /** Set to false for tools with side effects that must not run concurrently (default: true) */
+  parallel?: boolean;
+  /** Permission used when the user has not configured one (default: 'allow') */
+  defaultPermission?: ToolPermission;
+  /** Build the approval card content for a call */
+  preview?: (args: Record<string, unknown>) => Promise<ToolPreview>;
+}
+
+/** Outcome of a tool call, as returned by the tool registry */
+export interface ToolResult {
+  content: MessageContent;
+  /** The call failed; content is a JSON object with an "error" key */
+  isError: boolean;
+}
+
+/** A vault modification made by a tool, reported for the change journal */
+export type VaultChangeAction = 'create' | 'modify' | 'move' | 'trash' | 'create_folder';
+
+export interface VaultChange {
+  tool: string;
+  action: VaultChangeAction;
+  path: string;           // move: the new path
+  from?: string;          // move: the original path
+  before: string | null;  // file content; null for created files, moves and folders
+  after: string | null;   // file content; null for trashed files, moves and folders
+}
+
+export type VaultChangeRecorder = (change: VaultChange) => void;
+
+export interface JournalEntry extends VaultChange {
+  id: string;
+  sessionId: string;
+  turnId: string;
+  timestamp: number;
+  reverted?: boolean;
+}
+
+export interface ChangeJournalData {
+  entries: JournalEntry[];
+}
+
+/* ---- Agent Traces ---- */
+
+export interface TraceLLMEvent {
+  type: 'llm';
+  iteration: number;
+  startedAt: number;
+  durationMs: number;
+  /** Messages as sent, after context-budget trimming (system prompt included) */
+  messages: LLMMessage[];
+  response?: LLMResponse;
+  error?: string;
+}
+
+export interface TraceToolEvent {
+  type: 'tool';
+  iteration: number;
+  startedAt: number;
+  durationMs: number;
+  name: string;
+  args: Record<string, unknown>;
+  result: string;
+}
+
+export type TraceEvent = TraceLLMEvent | TraceToolEvent;
+
+export interface AgentTrace {
+  id: string;             // agent turn id
+  sessionId: string;
+  sessionTitle: string;
+  model: string;
+  skill?: string;         // skill matched for this turn
+  systemPrompt: string;
+  tools: ToolDefinition[];
+  startedAt: number;
+  durationMs: number;
+  events: TraceEvent[];
+  error?: string;
 }
 
 export interface AgentContext {
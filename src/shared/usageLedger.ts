@@ -0,0 +1,134 @@
+/**
+ * Usage Ledger - accumulates token usage per feature and model,
+ * and estimates cost from a configurable price table.
+ */
+
+import type { LLMUsage, UsageEntry, UsageLedgerData } from './types';
+
+/** Price per 1M tokens (USD) */
+export interface ModelPrice {
+  model: string;
+  input: number;
+  output: number;
+}
+
+export class UsageLedger {
+  private data: UsageLedgerData;
+  private onChange?: () => void;
+
+  /**
+   * @param data - persisted ledger (from plugin data)
+   * @param onChange - called after every record/reset, e.g. a debounced save
+   */
+  constructor(data?: UsageLedgerData, onChange?: () => void) {
+    this.data = data || { entries: [], since: Date.now() };
+    this.onChange = onChange;
+  }
+
+  record(feature: string, model: string, usage: LLMUsage): void {
+    let entry = this.data.entries.find(e => e.feature === feature && e.model === model);
+    if (!entry) {
+      entry = { feature, model, promptTokens: 0, completionTokens: 0, requests: 0, lastUsed: 0 };
+      this.data.entries.push(entry);
+    }
+    entry.promptTokens += usage.prompt_tokens || 0;
+    entry.completionTokens += usage.completion_tokens || 0;
+    entry.requests++;
+    entry.lastUsed = Date.now();
+    this.onChange?.();
+  }
+
+  getEntries(feature?: string): UsageEntry[] {
+    return feature
+      ? this.data.entries.filter(e => e.feature === feature)
+      : this.data.entries;
+  }
+
+  /**
+   * Sum tokens and estimated cost, optionally for a single feature
+   */
+  getTotals(prices: ModelPrice[], feature?: string): {
+    promptTokens: number;
+    completionTokens: number;
+    requests: number;
+    cost: number;
+  } {
+    const totals = { promptTokens: 0, completionTokens: 0, requests: 0, cost: 0 };
+    for (const entry of this.getEntries(feature)) {
+      totals.promptTokens += entry.promptTokens;
+      totals.completionTokens += entry.completionTokens;
+      totals.requests += entry.requests;
+      totals.cost += estimateCost(entry, prices);
+    }
+    return totals;
+  }
+
+  reset(): void {
+    this.data = { entries: [], since: Date.now() };
+    this.onChange?.();
+  }
+
+  getData(): UsageLedgerData {
+    return this.data;
+  }
+}
+
+/* ---- Pricing ---- */
+
+/**
+ * Find the price for a model: exact match first, then the longest prefix
+ * (so "gpt-4o" also prices "gpt-4o-2024-08-06").
+ */
+export function findModelPrice(model: string, prices: ModelPrice[]): ModelPrice | undefined {
+  const exact = prices.find(p => p.model === model);
+  if (exact) return exact;
+
+  let best: ModelPrice | undefined;
+  for (const price of prices) {
+    if (model.startsWith(price.model) && (!best || price.model.length > best.model.length)) {
+      best = price;
+    }
+  }
+  return best;
+}
+
+export function estimateCost(entry: Pick<UsageEntry, 'model' | 'promptTokens' | 'completionTokens'>, prices: ModelPrice[]): number {
+  const price = findModelPrice(entry.model, prices);
+  if (!price) return 0;
+  return (entry.promptTokens * price.input + entry.completionTokens * price.output) / 1000000;
+}
+
+/**
+ * Parse the settings text format: one "model: input, output" per line
+ */
+export function parsePriceTable(text: string): ModelPrice[] {
+  const prices: ModelPrice[] = [];
+  for (const line of text.split('\n')) {
+    const match = line.trim().match(/^([^:]+):\s*([\d.]+)\s*[,/ ]\s*([\d.]+)$/);
+    if (!match) continue;
+    prices.push({
+      model: match[1].trim(),
+      input: parseFloat(match[2]),
+      output: parseFloat(match[3]),
+    });
+  }
+  return prices;
+}
+
+export function formatPriceTable(prices: ModelPrice[]): string {
+  return prices.map(p => `${p.model}: ${p.input}, ${p.output}`).join('\n');
+}
+
+/* ---- Formatting ---- */
+
+export function formatTokens(count: number): string {
+  if (count >= 1000000) return (count / 1000000).toFixed(1) + 'M';
+  if (count >= 1000) return (count / 1000).toFixed(1) + 'k';
+  return String(count);
+}
+
+export function formatCost(cost: number): string {
+  if (cost === 0) return '$0';
+  if (cost < 0.01) return '<$0.01';
+  return '$' + cost.toFixed(2);
+}
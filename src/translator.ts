@@ -1,27 +1,13 @@
-import { requestUrl, Notice } from 'obsidian';
+import { LLMClient } from './shared/llmClient';
+import type { LLMMessage } from './shared/types';
 
 export interface TranslatorConfig {
-  baseUrl: string;
-  apiKey: string;
-  modelName: string;
+  llmClient: LLMClient;
   targetLang: string;
   systemPrompt: string;
   maxChunkSize: number;
 }
 
-interface ChatMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
-
-interface ChatCompletionResponse {
-  choices: Array<{
-    message: {
-      content: string;
-    };
-  }>;
-}
-
 const DEFAULT_SYSTEM_PROMPT = `You are a professional translator. Translate the following content to {targetLang}.
 
 Rules:
@@ -93,42 +79,22 @@ export class Translator {
    * 翻译单个文本块
    */
   async translateChunk(text: string): Promise<string> {
-    const { baseUrl, apiKey, modelName, targetLang, systemPrompt } = this.config;
+    const { llmClient, targetLang, systemPrompt } = this.config;
 
     const resolvedPrompt = (systemPrompt || DEFAULT_SYSTEM_PROMPT)
       .replace(/\{targetLang\}/g, targetLang);
 
-    const messages: ChatMessage[] = [
+    const messages: LLMMessage[] = [
       { role: 'system', content: resolvedPrompt },
       { role: 'user', content: text },
     ];
 
-    const url = baseUrl.replace(/\/+$/, '') + '/chat/completions';
-
-    const response = await requestUrl({
-      url,
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: modelName,
-        messages,
-        temperature: 0.3,
-      }),
-    });
-
-    if (response.status !== 200) {
-      throw new Error(`API 请求失败 (${response.status}): ${response.text}`);
-    }
-
-    const data: ChatCompletionResponse = response.json;
-    if (!data.choices || data.choices.length === 0) {
+    const response = await llmClient.complete(messages, { temperature: 0.3 });
+    if (!response.content) {
       throw new Error('API 返回了空的响应');
     }
 
-    return data.choices[0].message.content;
+    return response.content;
   }
 
   /**
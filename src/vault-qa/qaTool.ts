@@ -36,38 +36,30 @@ export function createSearchVaultQATool(
       const query = String(args.query);
       const limit = args.limit ? Number(args.limit) : undefined;
 
-      try {
-        const results = await hybridSearch.search(query, {
-          maxResults: limit,
-        });
-
-        if (results.length === 0) {
-          return JSON.stringify({
-            message: `No results found for "${query}"`,
-            results: [],
-          });
-        }
-
-        // Format results for the agent
-        const formatted = results.map((r) => ({
-          filePath: r.filePath,
-          snippet: r.snippet,
-          score: r.finalScore,
-          sources: r.sources,
-        }));
+      const results = await hybridSearch.search(query, {
+        maxResults: limit,
+      });
 
+      if (results.length === 0) {
         return JSON.stringify({
-          query,
-          totalResults: formatted.length,
-          results: formatted,
-        });
-      } catch (error) {
-        return JSON.stringify({
-          error: error instanceof Error ? error.message : String(error),
-          message: 'Search failed',
+          message: `No results found for "${query}"`,
           results: [],
         });
       }
+
+      // Format results for the agent
+      const formatted = results.map((r) => ({
+        filePath: r.filePath,
+        snippet: r.snippet,
+        score: r.finalScore,
+        sources: r.sources,
+      }));
+
+      return JSON.stringify({
+        query,
+        totalResults: formatted.length,
+        results: formatted,
+      });
     },
   };
 }
@@ -87,18 +79,11 @@ export function createVaultStatusTool(app: App): AgentTool {
       required: [],
     },
     execute: async () => {
-      try {
-        const files = app.vault.getMarkdownFiles();
-        return JSON.stringify({
-          totalFiles: files.length,
-          status: 'ready',
-        });
-      } catch (error) {
-        return JSON.stringify({
-          error: error instanceof Error ? error.message : String(error),
-          status: 'error',
-        });
-      }
+      const files = app.vault.getMarkdownFiles();
+      return JSON.stringify({
+        totalFiles: files.length,
+        status: 'ready',
+      });
     },
   };
 }
@@ -0,0 +1,51 @@
+/**
+ * The change journal keeps at most 200 entries and about 2 MB of note
+ * contents, dropping the oldest first but never the newest entry.
+ */
+
+import * as assert from 'assert';
+import { ChangeJournal } from '../src/agent/changeJournal';
+import type { JournalEntry, VaultChange } from '../src/shared/types';
+
+const MB = 1024 * 1024;
+
+function modify(path: string, after: string): VaultChange {
+  return { tool: 'edit_note', action: 'modify', path, before: '', after };
+}
+
+export const tests: Record<string, () => Promise<void>> = {
+  'only the newest 200 entries are kept': async () => {
+    const journal = new ChangeJournal();
+    for (let i = 0; i < 205; i++) journal.record(modify(`Note ${i}.md`, 'x'), 'session', `turn-${i}`);
+    const entries = journal.getEntries();
+    assert.strictEqual(entries.length, 200);
+    assert.strictEqual(entries[0].path, 'Note 204.md');
+    assert.strictEqual(entries[199].path, 'Note 5.md');
+  },
+
+  'oldest entries go once contents exceed the cap': async () => {
+    const journal = new ChangeJournal();
+    for (const name of ['a', 'b', 'c']) journal.record(modify(`${name}.md`, 'x'.repeat(0.8 * MB)), 'session', 'turn');
+    assert.deepStrictEqual(journal.getEntries().map(e => e.path), ['c.md', 'b.md']);
+  },
+
+  'an oversized newest entry is still kept': async () => {
+    const journal = new ChangeJournal();
+    journal.record(modify('small.md', 'x'), 'session', 'turn-1');
+    journal.record(modify('huge.md', 'x'.repeat(3 * MB)), 'session', 'turn-2');
+    assert.deepStrictEqual(journal.getEntries().map(e => e.path), ['huge.md']);
+    assert.strictEqual(journal.getLastTurnId(), 'turn-2');
+  },
+
+  'persisted data over the limits is trimmed on load': async () => {
+    const entries = ['a', 'b', 'c'].map((name, i): JournalEntry => ({
+      ...modify(`${name}.md`, 'x'.repeat(0.8 * MB)),
+      id: name,
+      sessionId: 'session',
+      turnId: 'turn',
+      timestamp: i,
+    }));
+    const journal = new ChangeJournal({ entries });
+    assert.deepStrictEqual(journal.getEntries().map(e => e.path), ['c.md', 'b.md']);
+  },
+};
@@ -0,0 +1,79 @@
+/**
+ * Context budget: output headroom and tool definitions come off the window,
+ * oversized tool results are clipped, and older rounds give way first.
+ */
+
+import * as assert from 'assert';
+import { availableTokens, createContextBudget, fitToBudget, truncateToolResult } from '../src/agent/contextCompactor';
+import { estimateMessagesTokens } from '../src/shared/tokenEstimator';
+import type { LLMMessage, ToolDefinition } from '../src/shared/types';
+
+const MODEL = 'test-model';  // 4 characters per token
+
+/** 1000-token window: 250 reserved for the reply leaves 750 */
+const BUDGET = createContextBudget(MODEL, { contextWindow: 1000, maxToolResultTokens: 100 });
+
+function toolRound(id: string, result: string): LLMMessage[] {
+  return [
+    { role: 'assistant', content: '', tool_calls: [{ id, type: 'function', function: { name: 'read_note', arguments: '{}' } }] },
+    { role: 'tool', content: result, tool_call_id: id },
+  ];
+}
+
+export const tests: Record<string, () => Promise<void>> = {
+  'the budget reserves output headroom from the context window': async () => {
+    assert.deepStrictEqual(BUDGET, { model: MODEL, contextWindow: 1000, reserveOutputTokens: 250, maxToolResultTokens: 100 });
+    assert.strictEqual(createContextBudget('gpt-4o').reserveOutputTokens, 4096);
+    assert.strictEqual(availableTokens(BUDGET), 750);
+  },
+
+  'tool definitions are paid for out of the available tokens': async () => {
+    const tools: ToolDefinition[] = [{
+      type: 'function',
+      function: { name: 'search_vault', description: 'Search notes by keyword', parameters: { type: 'object', properties: {} } },
+    }];
+    const definitionTokens = Math.ceil(JSON.stringify(tools).length / 4);
+    assert.strictEqual(availableTokens(BUDGET, tools), 750 - definitionTokens);
+  },
+
+  'oversized tool results are clipped, images are kept': async () => {
+    const clipped = truncateToolResult('x'.repeat(2000), BUDGET) as string;
+    assert.ok(clipped.startsWith('x'.repeat(400)) && clipped.length < 500, `${clipped.length} characters`);
+    assert.ok(clipped.endsWith('[... tool result truncated to fit the context window ...]'));
+
+    const image = { type: 'image' as const, mimeType: 'image/png', data: 'AAAA' };
+    const parts = truncateToolResult([{ type: 'text', text: 'y'.repeat(2000) }, image], BUDGET);
+    assert.ok(Array.isArray(parts) && parts[1] === image);
+  },
+
+  'messages that fit are returned as they are': async () => {
+    const messages: LLMMessage[] = [{ role: 'user', content: 'Hello' }, ...toolRound('1', 'short')];
+    assert.strictEqual(fitToBudget(messages, BUDGET), messages);
+  },
+
+  'results from earlier rounds are elided before the current round is touched': async () => {
+    const messages: LLMMessage[] = [
+      { role: 'user', content: 'Compare my notes' },
+      ...toolRound('1', 'a'.repeat(2000)),
+      ...toolRound('2', 'b'.repeat(2000)),
+    ];
+    const fitted = fitToBudget(messages, BUDGET);
+    assert.match(fitted[2].content as string, /^\[Earlier tool result omitted/);
+    assert.strictEqual(fitted[4].content, messages[4].content);
+    assert.strictEqual(messages[2].content, 'a'.repeat(2000));  // the input is not modified
+    assert.ok(estimateMessagesTokens(fitted, MODEL) <= availableTokens(BUDGET));
+  },
+
+  'current-round results are shrunk evenly when eliding is not enough': async () => {
+    const messages: LLMMessage[] = [
+      { role: 'user', content: 'Compare my notes' },
+      { role: 'assistant', content: '', tool_calls: ['1', '2'].map(id => ({ id, type: 'function' as const, function: { name: 'read_note', arguments: '{}' } })) },
+      { role: 'tool', content: 'a'.repeat(3000), tool_call_id: '1' },
+      { role: 'tool', content: 'b'.repeat(3000), tool_call_id: '2' },
+    ];
+    const fitted = fitToBudget(messages, BUDGET);
+    const [first, second] = [fitted[2].content as string, fitted[3].content as string];
+    assert.ok(first.length < 3000 && second.length < 3000);
+    assert.strictEqual(first.length, second.length);
+  },
+};
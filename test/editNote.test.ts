@@ -0,0 +1,35 @@
+/**
+ * Unified-diff hunks for edit_note's patch operation.
+ */
+
+import * as assert from 'assert';
+import { applyPatch } from '../src/agent/tools/editNote';
+
+const NOTE = ['# Plan', '', 'Intro', '---', '-- draft', 'Outro'].join('\n');
+
+export const tests: Record<string, () => Promise<void>> = {
+  'file headers before the first hunk are skipped': async () => {
+    const diff = ['--- a/Plan.md', '+++ b/Plan.md', '@@ -3,1 +3,1 @@', '-Intro', '+Introduction'].join('\n');
+    assert.strictEqual(applyPatch(NOTE, diff), NOTE.replace('Intro\n', 'Introduction\n'));
+  },
+
+  'a hunk can remove a "---" line': async () => {
+    const diff = ['--- a/Plan.md', '+++ b/Plan.md', '@@ -3,3 +3,2 @@', ' Intro', '----', ' -- draft'].join('\n');
+    assert.strictEqual(applyPatch(NOTE, diff), ['# Plan', '', 'Intro', '-- draft', 'Outro'].join('\n'));
+  },
+
+  'a hunk can remove a "-- …" line': async () => {
+    const diff = ['@@ -4,3 +4,2 @@', ' ---', '--- draft', ' Outro'].join('\n');
+    assert.strictEqual(applyPatch(NOTE, diff), ['# Plan', '', 'Intro', '---', 'Outro'].join('\n'));
+  },
+
+  'a hunk can add a "++" line': async () => {
+    const diff = ['@@ -6,1 +6,2 @@', ' Outro', '+++ extra'].join('\n');
+    assert.strictEqual(applyPatch(NOTE, diff), `${NOTE}\n++ extra`);
+  },
+
+  'a hunk without a @@ header is still applied': async () => {
+    const diff = ['-Outro', '+The end'].join('\n');
+    assert.strictEqual(applyPatch(NOTE, diff), NOTE.replace('Outro', 'The end'));
+  },
+};
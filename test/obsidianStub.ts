@@ -0,0 +1,26 @@
+/**
+ * The parts of the Obsidian API reached by the tested code. Scripted
+ * providers never touch the network, so requestUrl must not be called.
+ */
+
+import type * as Moment from 'moment';
+import type { CachedMetadata } from 'obsidian';
+
+export function requestUrl(): never {
+  throw new Error('requestUrl is not available in tests; use the scripted provider');
+}
+
+export class TFile {}
+export class TFolder {}
+
+// CommonJS module: require keeps it callable, as Obsidian exposes it
+export const moment: typeof Moment = require('moment');
+
+/** Frontmatter tags and body tags, each with a leading # */
+export function getAllTags(cache: CachedMetadata): string[] | null {
+  const raw = cache.frontmatter?.tags;
+  const frontmatterTags = (Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(/[,\s]+/) : [])
+    .filter(Boolean)
+    .map(tag => `#${String(tag).replace(/^#/, '')}`);
+  return [...frontmatterTags, ...(cache.tags || []).map(t => t.tag)];
+}
@@ -0,0 +1,108 @@
+/**
+ * query_notes against a fake vault: frontmatter conditions, tags, and date
+ * filters that work in local days.
+ */
+
+import * as assert from 'assert';
+import { createQueryNotesTool } from '../src/agent/tools/queryNotes';
+import type { App, CachedMetadata, TFile } from 'obsidian';
+
+interface FakeNote {
+  path: string;
+  /** Local time of the last change */
+  modified: Date;
+  frontmatter?: Record<string, unknown>;
+  tags?: string[];
+}
+
+function createApp(notes: FakeNote[]): App {
+  const files = notes.map(note => ({
+    path: note.path,
+    basename: note.path.replace(/^.*\//, '').replace(/\.md$/, ''),
+    stat: { mtime: note.modified.getTime(), ctime: note.modified.getTime() },
+  }));
+  const caches = new Map(notes.map((note, i): [unknown, CachedMetadata] => [files[i], {
+    frontmatter: note.frontmatter,
+    tags: (note.tags || []).map(tag => ({ tag, position: { start: { line: 0, col: 0, offset: 0 }, end: { line: 0, col: 0, offset: 0 } } })),
+  } as CachedMetadata]));
+  return {
+    vault: { getMarkdownFiles: () => files as unknown as TFile[] },
+    metadataCache: { getFileCache: (file: TFile) => caches.get(file) ?? null },
+  } as unknown as App;
+}
+
+const NOTES: FakeNote[] = [
+  { path: 'Projects/Alpha.md', modified: new Date(2024, 2, 10, 9, 0), frontmatter: { status: 'Active', priority: 3, due: '2024-04-01', tags: ['project/alpha'] } },
+  { path: 'Projects/Beta.md', modified: new Date(2024, 2, 11, 23, 30), frontmatter: { status: 'done', priority: 1, due: '2024-03-15', aliases: ['B'] }, tags: ['#project'] },
+  { path: 'Inbox/Idea.md', modified: new Date(2024, 2, 12, 0, 15), frontmatter: { status: '', priority: '10' } },
+];
+
+async function query(args: Record<string, unknown>, notes = NOTES): Promise<string[]> {
+  const result = JSON.parse(await createQueryNotesTool(createApp(notes)).execute(args) as string);
+  return result.notes.map((n: { path: string }) => n.path).sort();
+}
+
+/** Run with the process in another time zone, so local and UTC days differ */
+async function inTimeZone(timeZone: string, run: () => Promise<void>): Promise<void> {
+  const previous = process.env.TZ;
+  process.env.TZ = timeZone;
+  try {
+    await run();
+  } finally {
+    if (previous === undefined) delete process.env.TZ;
+    else process.env.TZ = previous;
+  }
+}
+
+export const tests: Record<string, () => Promise<void>> = {
+  'eq and ne compare text case-insensitively': async () => {
+    assert.deepStrictEqual(await query({ where: [{ property: 'Status', op: 'eq', value: 'active' }] }), ['Projects/Alpha.md']);
+    assert.deepStrictEqual(await query({ where: [{ property: 'status', op: 'ne', value: 'done' }] }), ['Inbox/Idea.md', 'Projects/Alpha.md']);
+  },
+
+  'numbers compare numerically, dates chronologically': async () => {
+    assert.deepStrictEqual(await query({ where: [{ property: 'priority', op: 'gt', value: 2 }] }), ['Inbox/Idea.md', 'Projects/Alpha.md']);
+    assert.deepStrictEqual(await query({ where: [{ property: 'due', op: 'lt', value: '2024-03-31' }] }), ['Projects/Beta.md']);
+    assert.deepStrictEqual(await query({ where: [{ property: 'due', op: 'gte', value: '2024-03-15T00:00' }] }), ['Projects/Alpha.md', 'Projects/Beta.md']);
+  },
+
+  'exists treats empty values as missing; contains searches list items': async () => {
+    assert.deepStrictEqual(await query({ where: [{ property: 'status', op: 'not_exists' }] }), ['Inbox/Idea.md']);
+    assert.deepStrictEqual(await query({ where: [{ property: 'aliases', op: 'contains', value: 'b' }] }), ['Projects/Beta.md']);
+  },
+
+  'tags match nested tags and combine with all or any': async () => {
+    assert.deepStrictEqual(await query({ tags: ['#project'] }), ['Projects/Alpha.md', 'Projects/Beta.md']);
+    assert.deepStrictEqual(await query({ tags: ['project/alpha'] }), ['Projects/Alpha.md']);
+    assert.deepStrictEqual(await query({ tags: ['project/alpha', 'missing'], tag_mode: 'any' }), ['Projects/Alpha.md']);
+    assert.deepStrictEqual(await query({ tags: ['project/alpha', 'missing'] }), []);
+  },
+
+  'invalid conditions and dates are reported': async () => {
+    const tool = createQueryNotesTool(createApp(NOTES));
+    await assert.rejects(tool.execute({ where: [{ property: 'status', op: 'like' }] }), /unknown op "like"/);
+    await assert.rejects(tool.execute({ modified_after: 'last week' }), /Invalid date for modified_after/);
+  },
+
+  'date filters are whole local days, both ends inclusive': async () => {
+    await inTimeZone('Pacific/Auckland', async () => {
+      // Same local times as NOTES, created in this time zone
+      const notes = [
+        { path: 'Projects/Alpha.md', modified: new Date(2024, 2, 10, 9, 0) },
+        { path: 'Projects/Beta.md', modified: new Date(2024, 2, 11, 23, 30) },
+        { path: 'Inbox/Idea.md', modified: new Date(2024, 2, 12, 0, 15) },
+      ];
+      assert.deepStrictEqual(await query({ modified_after: '2024-03-11', modified_before: '2024-03-11' }, notes), ['Projects/Beta.md']);
+      assert.deepStrictEqual(await query({ modified_after: '2024-03-12' }, notes), ['Inbox/Idea.md']);
+      assert.deepStrictEqual(await query({ modified_before: '2024-03-10' }, notes), ['Projects/Alpha.md']);
+    });
+  },
+
+  'note dates are reported as local days': async () => {
+    await inTimeZone('America/Los_Angeles', async () => {
+      const notes = [{ path: 'Late.md', modified: new Date(2024, 2, 11, 23, 30) }];
+      const result = JSON.parse(await createQueryNotesTool(createApp(notes)).execute({}) as string);
+      assert.strictEqual(result.notes[0].modified, '2024-03-11');
+    });
+  },
+};
@@ -0,0 +1,50 @@
+/**
+ * ResponseCache against in-memory storage: last use survives a reload,
+ * so least-recently-used eviction follows real use.
+ */
+
+import * as assert from 'assert';
+import { ResponseCache } from '../src/shared/responseCache';
+import type { CacheStorage } from '../src/shared/responseCache';
+
+class MemoryStorage implements CacheStorage {
+  files = new Map<string, string>();
+
+  async exists(path: string): Promise<boolean> {
+    return this.files.has(path) || Array.from(this.files.keys()).some(p => p.startsWith(path + '/'));
+  }
+  async read(path: string): Promise<string> {
+    const data = this.files.get(path);
+    if (data === undefined) throw new Error(`No such file: ${path}`);
+    return data;
+  }
+  async write(path: string, data: string): Promise<void> {
+    this.files.set(path, data);
+  }
+  async remove(path: string): Promise<void> {
+    this.files.delete(path);
+  }
+  async mkdir(): Promise<void> {}
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const tests: Record<string, () => Promise<void>> = {
+  'a hit is persisted and protects the entry from eviction after a reload': async () => {
+    const storage = new MemoryStorage();
+    const options = { dir: 'cache', maxBytes: 1024 * 1024, maxEntries: 2 };
+    const first = new ResponseCache(storage, options);
+    await first.set('old', 'a');
+    await sleep(5);
+    await first.set('new', 'b');
+    await sleep(5);
+    assert.strictEqual(await first.get('old'), 'a');
+    await sleep(5);  // let the queued index save run
+
+    const reloaded = new ResponseCache(storage, options);
+    await reloaded.set('newest', 'c');
+    assert.strictEqual(await reloaded.get('new'), undefined);
+    assert.strictEqual(await reloaded.get('old'), 'a');
+    assert.strictEqual(await reloaded.get('newest'), 'c');
+  },
+};
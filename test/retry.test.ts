@@ -0,0 +1,82 @@
+/**
+ * Retry policy: which failures are retried, how long to wait, when to give up.
+ */
+
+import * as assert from 'assert';
+import { LLMApiError, getRetryAfterMs, parseRetryAfter, withRetry } from '../src/shared/retry';
+import type { RetryPolicy } from '../src/shared/retry';
+
+/** No real waiting: backoff is capped at zero */
+const POLICY: RetryPolicy = { maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0, retryOnStatus: [429, 503] };
+
+/** Fails with the given errors in turn, then succeeds */
+function flaky(errors: unknown[]): { fn: (attempt: number) => Promise<string>; attempts: number[] } {
+  const attempts: number[] = [];
+  return {
+    attempts,
+    fn: async (attempt) => {
+      attempts.push(attempt);
+      if (attempts.length <= errors.length) throw errors[attempts.length - 1];
+      return 'ok';
+    },
+  };
+}
+
+export const tests: Record<string, () => Promise<void>> = {
+  'retryable statuses and network errors are retried until success': async () => {
+    const { fn, attempts } = flaky([new LLMApiError('busy', 503), new TypeError('Failed to fetch')]);
+    const retries: number[] = [];
+    const result = await withRetry(fn, POLICY, undefined, (_error, attempt) => retries.push(attempt));
+    assert.strictEqual(result, 'ok');
+    assert.deepStrictEqual(attempts, [0, 1, 2]);
+    assert.deepStrictEqual(retries, [1, 2]);
+  },
+
+  'client errors are not retried': async () => {
+    const { fn, attempts } = flaky([new LLMApiError('bad request', 400)]);
+    await assert.rejects(withRetry(fn, POLICY), (err: unknown) => err instanceof LLMApiError && err.status === 400);
+    assert.deepStrictEqual(attempts, [0]);
+  },
+
+  'gives up after maxRetries with the last error': async () => {
+    const errors = [1, 2, 3].map(n => new LLMApiError(`limited ${n}`, 429));
+    const { fn, attempts } = flaky(errors);
+    await assert.rejects(withRetry(fn, POLICY), (err: unknown) => err === errors[2]);
+    assert.strictEqual(attempts.length, POLICY.maxRetries + 1);
+  },
+
+  'aborts are not retried': async () => {
+    const { fn, attempts } = flaky([new DOMException('Aborted', 'AbortError')]);
+    await assert.rejects(withRetry(fn, POLICY), (err: unknown) => err instanceof DOMException && err.name === 'AbortError');
+    assert.deepStrictEqual(attempts, [0]);
+  },
+
+  'Retry-After wins over backoff, capped at twice maxDelayMs': async () => {
+    const policy = { ...POLICY, maxDelayMs: 5 };
+    const delays: number[] = [];
+    const { fn } = flaky([new LLMApiError('limited', 429, 3), new LLMApiError('limited', 429, 60000)]);
+    await withRetry(fn, policy, undefined, (_error, _attempt, delayMs) => delays.push(delayMs));
+    assert.deepStrictEqual(delays, [3, 10]);
+  },
+
+  'backoff stays within the exponential bound': async () => {
+    const policy = { ...POLICY, maxRetries: 3, baseDelayMs: 2, maxDelayMs: 6 };
+    const delays: number[] = [];
+    const { fn } = flaky([1, 2, 3].map(() => new LLMApiError('busy', 503)));
+    await withRetry(fn, policy, undefined, (_error, _attempt, delayMs) => delays.push(delayMs));
+    [2, 4, 6].forEach((bound, i) => assert.ok(delays[i] >= 0 && delays[i] <= bound, `delay ${i + 1}: ${delays[i]}`));
+  },
+
+  'Retry-After is read as seconds or an HTTP date, from either header shape': async () => {
+    assert.strictEqual(parseRetryAfter('2'), 2000);
+    assert.strictEqual(parseRetryAfter('soon'), undefined);
+    const date = parseRetryAfter(new Date(Date.now() + 60000).toUTCString());
+    assert.ok(date !== undefined && date > 55000 && date <= 60000, `got ${date}`);
+    assert.strictEqual(parseRetryAfter(new Date(Date.now() - 60000).toUTCString()), 0);
+
+    assert.strictEqual(getRetryAfterMs({ 'Retry-After': '1' }), 1000);
+    assert.strictEqual(getRetryAfterMs(new Headers({ 'retry-after': '3' })), 3000);
+    assert.strictEqual(getRetryAfterMs({ 'content-type': 'application/json' }), undefined);
+    assert.strictEqual(getRetryAfterMs(undefined), undefined);
+  },
+};
@@ -0,0 +1,61 @@
+/**
+ * Test runner: bundles each test/*.test.ts with esbuild, with the Obsidian
+ * API replaced by test/obsidianStub.ts, and runs its exported `tests`.
+ *
+ * Usage: node test/run.mjs
+ */
+
+import esbuild from "esbuild";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import process from "process";
+import { fileURLToPath, pathToFileURL } from "url";
+
+const testDir = path.dirname(fileURLToPath(import.meta.url));
+process.chdir(path.dirname(testDir));
+
+const stubObsidian = {
+  name: "stub-obsidian",
+  setup(build) {
+    build.onResolve({ filter: /^obsidian$/ }, () => ({ path: path.join(testDir, "obsidianStub.ts") }));
+  },
+};
+
+const outDir = mkdtempSync(path.join(tmpdir(), "palace-tests-"));
+let failed = 0;
+
+try {
+  for (const file of readdirSync(testDir).filter(f => f.endsWith(".test.ts")).sort()) {
+    const outfile = path.join(outDir, file.replace(/\.ts$/, ".mjs"));
+    await esbuild.build({
+      entryPoints: [path.join(testDir, file)],
+      bundle: true,
+      format: "esm",
+      platform: "node",
+      target: "es2020",
+      outfile,
+      plugins: [stubObsidian],
+      logLevel: "error",
+    });
+
+    const { tests } = await import(pathToFileURL(outfile).href);
+    console.log(file);
+    for (const [name, run] of Object.entries(tests)) {
+      try {
+        await run();
+        console.log(`  ✓ ${name}`);
+      } catch (err) {
+        failed++;
+        console.log(`  ✗ ${name}\n    ${err instanceof Error ? err.stack : err}`);
+      }
+    }
+  }
+} finally {
+  rmSync(outDir, { recursive: true, force: true });
+}
+
+if (failed > 0) {
+  console.log(`\n${failed} test(s) failed`);
+  process.exit(1);
+}
@@ -0,0 +1,80 @@
+/**
+ * Replays test/fixtures/agent-replay.json through the scripted provider:
+ * an agent turn with a tool call, a structured-output repair round-trip,
+ * embeddings, and running out of fixtures.
+ */
+
+import * as assert from 'assert';
+import { readFileSync } from 'fs';
+import { LLMClient } from '../src/shared/llmClient';
+import { FixtureStore, parseFixtureFile } from '../src/shared/providers';
+import { LLMApiError } from '../src/shared/retry';
+import { AgentRunner } from '../src/agent/agentRunner';
+import { ToolRegistry } from '../src/agent/toolRegistry';
+
+const FIXTURE_PATH = 'test/fixtures/agent-replay.json';
+
+function createClient(): LLMClient {
+  const fixtures = new FixtureStore(parseFixtureFile(readFileSync(FIXTURE_PATH, 'utf8')));
+  return new LLMClient({ baseUrl: '', apiKey: '', modelName: 'scripted', provider: 'scripted', fixtures });
+}
+
+export const tests: Record<string, () => Promise<void>> = {
+  'agent turn: tool call, then an answer from its result': async () => {
+    const searches: unknown[] = [];
+    const toolRegistry = new ToolRegistry();
+    toolRegistry.register({
+      name: 'search_vault',
+      description: 'Search notes',
+      parameters: { type: 'object', properties: { query: { type: 'string' } } },
+      execute: async (args) => {
+        searches.push(args);
+        return JSON.stringify({ results: [{ path: 'Meetings/Weekly sync.md' }] });
+      },
+    });
+
+    const toolResults: Array<{ name: string; isError: boolean }> = [];
+    let streamed = '';
+    const agent = new AgentRunner({ llmClient: createClient(), toolRegistry, maxIterations: 5, systemPrompt: 'You are a test agent.' });
+    const answer = await agent.run(
+      [{ role: 'user', content: 'Summarize my meeting notes' }],
+      {
+        onToken: (token) => { streamed += token; },
+        onToolResult: (name, _result, { isError }) => toolResults.push({ name, isError }),
+      }
+    );
+
+    assert.deepStrictEqual(searches, [{ query: 'meeting' }]);
+    assert.deepStrictEqual(toolResults, [{ name: 'search_vault', isError: false }]);
+    assert.strictEqual(answer, 'You have one meeting note, [[Weekly sync]]: the team agreed to ship the beta on Friday.');
+    assert.strictEqual(streamed, answer);
+  },
+
+  'completeJSON repairs a reply that is not JSON': async () => {
+    const result = await createClient().completeJSON<{ concepts: string[] }>(
+      [{ role: 'user', content: 'Extract the concepts from this note' }],
+      {
+        name: 'concepts',
+        type: 'object',
+        properties: { concepts: { type: 'array', items: { type: 'string' } } },
+        required: ['concepts'],
+      }
+    );
+    assert.deepStrictEqual(result, { concepts: ['spaced repetition', 'knowledge graph'] });
+  },
+
+  'embeddings come from a repeating fixture': async () => {
+    const client = createClient();
+    for (let i = 0; i < 2; i++) {
+      const embeddings = await client.createEmbeddings(['first', 'second'], 'scripted-embedding');
+      assert.deepStrictEqual(embeddings.map(e => e.vector), [[1, 0, 0], [0, 1, 0]]);
+    }
+  },
+
+  'a request without a fixture fails with 404': async () => {
+    await assert.rejects(
+      createClient().complete([{ role: 'user', content: 'Something nobody recorded' }]),
+      (err: unknown) => err instanceof LLMApiError && err.status === 404
+    );
+  },
+};
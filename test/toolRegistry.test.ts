@@ -0,0 +1,57 @@
+/**
+ * Tool results carry an explicit error flag, set where the failure is caught.
+ */
+
+import * as assert from 'assert';
+import { ToolRegistry } from '../src/agent/toolRegistry';
+
+function createRegistry(): ToolRegistry {
+  const registry = new ToolRegistry();
+  registry.register({
+    name: 'echo',
+    description: 'Return the text',
+    parameters: { type: 'object', properties: { text: { type: 'string' } } },
+    execute: async (args) => String(args.text),
+  });
+  registry.register({
+    name: 'fail',
+    description: 'Always throws',
+    parameters: { type: 'object', properties: {} },
+    execute: async () => { throw new Error('Note not found: Missing.md'); },
+  });
+  registry.register({
+    name: 'write',
+    description: 'Needs approval',
+    parameters: { type: 'object', properties: {} },
+    defaultPermission: 'ask',
+    execute: async () => 'written',
+  });
+  return registry;
+}
+
+export const tests: Record<string, () => Promise<void>> = {
+  'a result that merely looks like an error is not flagged': async () => {
+    const result = await createRegistry().execute('echo', { text: '{"error": "quoted from a note"}' });
+    assert.deepStrictEqual(result, { content: '{"error": "quoted from a note"}', isError: false });
+  },
+
+  'a thrown error is returned as a flagged JSON error': async () => {
+    const result = await createRegistry().execute('fail', {});
+    assert.deepStrictEqual(result, { content: JSON.stringify({ error: 'Note not found: Missing.md' }), isError: true });
+  },
+
+  'unknown, denied and rejected calls are flagged': async () => {
+    const registry = createRegistry();
+    assert.strictEqual((await registry.execute('missing', {})).isError, true);
+    assert.strictEqual((await registry.execute('write', {})).isError, true);  // no approval handler
+
+    registry.setApprovalHandler(async () => ({ approved: false }));
+    assert.strictEqual((await registry.execute('write', {})).isError, true);
+
+    registry.setApprovalHandler(async () => ({ approved: true }));
+    assert.deepStrictEqual(await registry.execute('write', {}), { content: 'written', isError: false });
+
+    registry.setPermissions({ echo: 'deny' });
+    assert.strictEqual((await registry.execute('echo', { text: 'hi' })).isError, true);
+  },
+};